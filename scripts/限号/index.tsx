@@ -1,2 +1,828 @@
-// 在主脚本中清除今日的限号缓存
-Storage.remove(`limitNumbers_${new Date().toLocaleDateString()}`)
\ No newline at end of file
+// 限号助手 - App主页面：限行概览、设置和维护
+import {
+  Button,
+  Dialog,
+  HStack,
+  List,
+  Navigation,
+  NavigationLink,
+  NavigationStack,
+  Script,
+  Section,
+  Spacer,
+  Text,
+  TextField,
+  Toggle,
+  useEffect,
+  useState
+} from 'scripting'
+import { clearCachedLimitData } from './utils/cache'
+import { addDays, formatDateKey, formatTime, getDateParts, getWeekdayIndex, parseDateKey, startOfDay } from './utils/calendar'
+import {
+  CityMode,
+  CityPreference,
+  DEFAULT_CITY,
+  getCityPreference,
+  isFixedCity,
+  saveCityPreference
+} from './utils/city'
+import { getCityInfo, resolveCityId, searchCities } from './utils/cityRegistry'
+import { getCommuteCities, MAX_COMMUTE_CITIES, saveCommuteCities } from './utils/commute'
+import {
+  getHolidayInfo,
+  getHolidayOverrides,
+  HolidayInfo,
+  HolidayType,
+  removeHolidayOverride,
+  setHolidayOverride
+} from './utils/holiday'
+import {
+  formatLocalizedLimit,
+  getLanguageSetting,
+  getLocalizedCityName,
+  getMessages,
+  getWeekdayName,
+  LanguageSetting,
+  Locale,
+  MESSAGE_CATALOG,
+  saveLanguageSetting
+} from './utils/i18n'
+import { getLocationChangeSettings, LocationChangeSettings, saveLocationChangeSettings } from './utils/locationChange'
+import { getProviderChain, getProviders, saveProviderChain } from './utils/provider'
+import {
+  getReminderSettings,
+  parseReminderTime,
+  planReminders,
+  ReminderSettings,
+  ReminderTarget,
+  saveReminderSettings,
+  updateReminders
+} from './utils/reminder'
+import { RestrictionRule } from './utils/restriction'
+import {
+  DayLimitInfo,
+  getDayLimitRule,
+  getPlateRestriction,
+  getWeeklyLimitNumbers,
+  LimitQueryOptions,
+  PlateVerdict,
+  WeeklyLimitData
+} from './utils/service'
+import { getThemeId, saveThemeId, ThemeId, WIDGET_THEMES } from './utils/theme'
+import { formatTimeWindowStatus, getTimeWindowStatus } from './utils/timeWindow'
+import { addVehicle, getGarage, removeVehicle } from './utils/vehicle'
+
+/**
+ * 城市选择方式（按显示顺序）
+ */
+const CITY_MODES: CityMode[] = ['auto', 'fixed', 'autoWithFallback'];
+
+/**
+ * 概览页面的数据
+ */
+interface DashboardData {
+  weekly: WeeklyLimitData;
+  today: DayLimitInfo | null;
+  tomorrow: { date: Date; limitInfo: RestrictionRule; holiday: HolidayInfo | null };
+}
+
+/**
+ * 格式化时间戳为"YYYY-MM-DD HH:MM"
+ */
+function formatDateTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${formatDateKey(date)} ${formatTime(date)}`;
+}
+
+/**
+ * 格式化日期为"10/21 周二"
+ */
+function formatDayLabel(date: Date): string {
+  const { month, day } = getDateParts(date);
+  return `${month}/${day} ${getWeekdayName(getWeekdayIndex(date))}`;
+}
+
+/**
+ * 获取车牌判定结果的显示文本
+ */
+function getVerdictLabel(verdict: PlateVerdict): string {
+  const messages = getMessages();
+  if (verdict === 'restricted') {
+    return messages.restrictedShort;
+  }
+  return verdict === 'notRestricted' ? messages.allowedShort : messages.verdictUnknown;
+}
+
+/**
+ * 获取限行规则的显示文本，节假日时附带节日名称
+ */
+function getRuleLabel(rule: RestrictionRule, holiday: HolidayInfo | null): string {
+  const messages = getMessages();
+  const ruleText = formatLocalizedLimit(rule);
+  if (!holiday) {
+    return ruleText;
+  }
+  return messages.ruleWithHoliday(ruleText, messages.holidayNames[holiday.name] || holiday.name, holiday.type !== 'holiday');
+}
+
+/**
+ * 获取城市偏好的显示文本，如"固定城市：成都"
+ */
+function getCityPreferenceLabel(preference: CityPreference): string {
+  const messages = getMessages();
+  if (preference.mode === 'auto' || !preference.city) {
+    return messages.cityModeNames.auto;
+  }
+  const cityName = getLocalizedCityName(preference.city);
+  return preference.mode === 'fixed' ? messages.fixedCityLabel(cityName) : messages.fallbackCityLabel(cityName);
+}
+
+/**
+ * 获取车辆的显示文本，如"家用车（京A12345）"
+ */
+function getVehicleLabel(vehicle: { nickname: string; plate: string }): string {
+  return getMessages().labelWithDetail(vehicle.nickname, vehicle.plate);
+}
+
+/**
+ * 获取数据源的显示名称
+ * @param id 数据源ID
+ */
+function getProviderName(id: string): string {
+  const provider = getProviders().find(item => item.id === id);
+  return getMessages().providerNames[id] || (provider ? provider.name : id);
+}
+
+/**
+ * 左右两端对齐的信息行
+ */
+function InfoRow({ title, value }: { title: string; value: string }) {
+  return (
+    <HStack>
+      <Text>{title}</Text>
+      <Spacer />
+      <Text foregroundStyle="secondaryLabel">{value}</Text>
+    </HStack>
+  );
+}
+
+/**
+ * 车库中每辆车在指定规则下的判定，每辆车一行
+ */
+function createVehicleVerdictRows(rule: RestrictionRule) {
+  return getGarage().map(vehicle => (
+    <InfoRow
+      title={getVehicleLabel(vehicle)}
+      value={getVerdictLabel(getPlateRestriction(rule, vehicle.plate).verdict)}
+    />
+  ));
+}
+
+/**
+ * 添加车辆到车库
+ * @param city 当前城市ID，用于提示该城市的车牌前缀
+ */
+async function promptAddVehicle(city: string) {
+  const messages = getMessages();
+  const cityInfo = getCityInfo(city);
+  const platePrefix = cityInfo ? cityInfo.platePrefix.padEnd(2, 'A') : '京A';
+  const plate = await Dialog.prompt({
+    title: messages.addVehicle,
+    message: messages.addVehicleMessage,
+    placeholder: messages.platePlaceholder(platePrefix)
+  });
+  if (!plate) {
+    return;
+  }
+
+  const nickname = await Dialog.prompt({
+    title: messages.nicknameTitle,
+    message: messages.nicknameMessage,
+    placeholder: messages.nicknamePlaceholder
+  });
+
+  if (!addVehicle(nickname || '', plate)) {
+    await Dialog.alert({ message: messages.invalidPlate });
+  }
+}
+
+/**
+ * 城市设置页面：选择使用定位、固定城市或定位失败时使用的城市，可搜索支持的城市
+ */
+function CitySettingsPage({ onChanged }: { onChanged: () => void }) {
+  const [preference, setPreference] = useState<CityPreference>(getCityPreference());
+  const [query, setQuery] = useState('');
+  const [detection, setDetection] = useState<LocationChangeSettings>(getLocationChangeSettings());
+  const messages = getMessages();
+
+  const applyPreference = (newPreference: CityPreference) => {
+    saveCityPreference(newPreference);
+    setPreference(newPreference);
+    onChanged();
+  };
+
+  // 切换到需要城市的方式时默认使用之前选择的城市或默认城市，避免固定城市模式下仍然调用定位
+  const selectMode = (mode: CityMode) => {
+    applyPreference({ mode, city: mode === 'auto' ? null : preference.city || DEFAULT_CITY });
+  };
+
+  // 自动定位时选择城市视为固定城市
+  const selectCity = (city: string) => {
+    applyPreference({ mode: preference.mode === 'auto' ? 'fixed' : preference.mode, city });
+  };
+
+  const promptCity = async () => {
+    const city = await Dialog.prompt({
+      title: messages.enterCityTitle,
+      message: messages.enterCityMessage,
+      placeholder: messages.cityPlaceholder
+    });
+    if (city && city.trim()) {
+      selectCity(resolveCityId(city));
+    }
+  };
+
+  const applyDetection = (newDetection: LocationChangeSettings) => {
+    saveLocationChangeSettings(newDetection);
+    setDetection(newDetection);
+  };
+
+  const promptDetectionValue = async (title: string, message: string, current: number): Promise<number | null> => {
+    const value = await Dialog.prompt({ title, message, placeholder: String(current) });
+    if (!value) {
+      return null;
+    }
+    const parsed = parseFloat(value.trim());
+    if (!(parsed > 0)) {
+      await Dialog.alert({ message: messages.positiveNumberRequired });
+      return null;
+    }
+    return parsed;
+  };
+
+  const promptDistance = async () => {
+    const km = await promptDetectionValue(messages.distanceTitle, messages.distanceMessage, detection.distanceMeters / 1000);
+    if (km !== null) {
+      applyDetection({ ...detection, distanceMeters: Math.round(km * 1000) });
+    }
+  };
+
+  const promptMaxAge = async () => {
+    const minutes = await promptDetectionValue(messages.maxAgeTitle, messages.maxAgeMessage, detection.maxAgeMinutes);
+    if (minutes !== null) {
+      applyDetection({ ...detection, maxAgeMinutes: Math.round(minutes) });
+    }
+  };
+
+  return (
+    <List navigationTitle={messages.cityTitle}>
+      <Section header={<Text>{messages.cityModeHeader}</Text>} footer={<Text>{messages.cityModeFooter}</Text>}>
+        {CITY_MODES.map(mode => (
+          <Button title={`${messages.cityModeNames[mode]}${preference.mode === mode ? ' ✓' : ''}`} action={() => selectMode(mode)} />
+        ))}
+      </Section>
+      <Section
+        header={<Text>{preference.mode === 'autoWithFallback' ? messages.fallbackCityHeader : messages.cityTitle}</Text>}
+        footer={preference.mode === 'auto' ? <Text>{messages.autoSelectCityFooter}</Text> : undefined}
+      >
+        <TextField title={messages.searchTitle} value={query} onChanged={setQuery} prompt={messages.citySearchPrompt} />
+        {searchCities(query).map(city => (
+          <Button
+            title={`${messages.labelWithDetail(getLocalizedCityName(city.id), city.platePrefix)}${city.id === preference.city ? ' ✓' : ''}`}
+            action={() => selectCity(city.id)}
+          />
+        ))}
+        <Button title={messages.enterCityAction} action={promptCity} />
+      </Section>
+      {isFixedCity(preference) ? null : (
+        <Section header={<Text>{messages.detectionHeader}</Text>} footer={<Text>{messages.detectionFooter}</Text>}>
+          <Button title={messages.distanceValue(detection.distanceMeters / 1000)} action={promptDistance} />
+          <Button title={messages.maxAgeValue(detection.maxAgeMinutes)} action={promptMaxAge} />
+          <Toggle
+            title={messages.notifyCityChange}
+            value={detection.notify}
+            onChanged={(notify: boolean) => applyDetection({ ...detection, notify })}
+          />
+        </Section>
+      )}
+    </List>
+  );
+}
+
+/**
+ * 车库页面：添加或移除车辆，第一辆车为主车辆
+ */
+function GaragePage({ city, onChanged }: { city: string; onChanged: () => void }) {
+  const [garage, setGarage] = useState(getGarage());
+  const messages = getMessages();
+
+  const reload = () => {
+    setGarage(getGarage());
+    onChanged();
+  };
+
+  const confirmRemove = async (id: string, label: string) => {
+    const confirmed = await Dialog.confirm({
+      title: messages.removeVehicleTitle,
+      message: messages.removeVehicleMessage(label)
+    });
+    if (confirmed) {
+      removeVehicle(id);
+      reload();
+    }
+  };
+
+  return (
+    <List navigationTitle={messages.garageTitle}>
+      <Section footer={<Text>{messages.garageFooter}</Text>}>
+        {garage.map(vehicle => (
+          <Button
+            title={getVehicleLabel(vehicle)}
+            action={() => confirmRemove(vehicle.id, getVehicleLabel(vehicle))}
+          />
+        ))}
+        <Button title={messages.addVehicle} action={async () => {
+          await promptAddVehicle(city);
+          reload();
+        }} />
+      </Section>
+    </List>
+  );
+}
+
+/**
+ * 提醒设置页面：开关提醒、添加或移除提醒时间
+ */
+function ReminderSettingsPage({ city }: { city: string }) {
+  const [settings, setSettings] = useState<ReminderSettings>(getReminderSettings());
+  const messages = getMessages();
+
+  const applySettings = async (newSettings: ReminderSettings) => {
+    saveReminderSettings(newSettings);
+    setSettings(newSettings);
+    await updateReminders(city, { force: true });
+  };
+
+  const promptAddTime = async () => {
+    const time = await Dialog.prompt({
+      title: messages.addReminderTitle,
+      message: messages.addReminderMessage,
+      placeholder: messages.reminderTimePlaceholder
+    });
+    if (!time) {
+      return;
+    }
+    if (parseReminderTime(time.trim()) === null) {
+      await Dialog.alert({ message: messages.invalidReminderTime });
+      return;
+    }
+
+    const targets: ReminderTarget[] = ['tomorrow', 'today'];
+    const index = await Dialog.actionSheet({
+      title: messages.reminderSheetTitle(time.trim()),
+      actions: [{ label: messages.remindTomorrow }, { label: messages.remindToday }]
+    });
+    if (index === null || index === undefined) {
+      return;
+    }
+    await applySettings({ ...settings, times: [...settings.times, { time: time.trim(), target: targets[index] }] });
+  };
+
+  const upcoming = planReminders(city, settings);
+
+  return (
+    <List navigationTitle={messages.remindersTitle}>
+      <Section footer={<Text>{messages.remindersFooter}</Text>}>
+        <Toggle
+          title={messages.enableReminders}
+          value={settings.enabled}
+          onChanged={(enabled: boolean) => applySettings({ ...settings, enabled })}
+        />
+      </Section>
+      <Section header={<Text>{messages.reminderTimesHeader}</Text>} footer={<Text>{messages.reminderTimesFooter}</Text>}>
+        {settings.times.map((reminderTime, index) => (
+          <Button
+            title={messages.reminderTimeLabel(reminderTime.time, reminderTime.target === 'today')}
+            action={() => applySettings({ ...settings, times: settings.times.filter((_, i) => i !== index) })}
+          />
+        ))}
+        <Button title={messages.addReminderTime} action={promptAddTime} />
+      </Section>
+      <Section header={<Text>{messages.upcomingHeader}</Text>}>
+        {upcoming.length > 0
+          ? upcoming.map(reminder => <InfoRow title={reminder.body} value={formatDateTime(reminder.fireAt)} />)
+          : <Text foregroundStyle="secondaryLabel">{messages.noUpcomingReminders}</Text>}
+      </Section>
+    </List>
+  );
+}
+
+/**
+ * 自定义节假日页面：查看、添加或移除自定义的节假日和调休上班日
+ */
+function HolidaySettingsPage({ city, onChanged }: { city: string; onChanged: () => void }) {
+  const [overrides, setOverrides] = useState(getHolidayOverrides());
+  const messages = getMessages();
+  const dateKeys = Object.keys(overrides).sort();
+
+  // 节假日变化后重新安排提醒，节假日不提醒
+  const reload = async () => {
+    setOverrides(getHolidayOverrides());
+    await updateReminders(city, { force: true });
+    onChanged();
+  };
+
+  const promptAdd = async () => {
+    const input = await Dialog.prompt({
+      title: messages.addHolidayOverride,
+      message: messages.holidayDateMessage,
+      placeholder: messages.holidayDatePlaceholder
+    });
+    if (!input) {
+      return;
+    }
+    const date = parseDateKey(input.trim());
+    if (!date) {
+      await Dialog.alert({ message: messages.invalidHolidayDate });
+      return;
+    }
+
+    const dateKey = formatDateKey(date);
+    const types: (HolidayType | null)[] = ['holiday', 'workday', null];
+    const index = await Dialog.actionSheet({
+      title: dateKey,
+      actions: [{ label: messages.holidayTypeHoliday }, { label: messages.holidayTypeWorkday }, { label: messages.holidayTypeNormal }]
+    });
+    if (index === null || index === undefined) {
+      return;
+    }
+
+    const type = types[index];
+    if (!type) {
+      setHolidayOverride(dateKey, null);
+    } else {
+      const name = await Dialog.prompt({
+        title: messages.holidayNameTitle,
+        message: messages.holidayNameMessage,
+        placeholder: messages.holidayNamePlaceholder
+      });
+      if (!name || !name.trim()) {
+        return;
+      }
+      setHolidayOverride(dateKey, { type, name: name.trim() });
+    }
+    await reload();
+  };
+
+  const confirmRemove = async (dateKey: string) => {
+    const confirmed = await Dialog.confirm({
+      title: messages.removeHolidayOverrideTitle,
+      message: messages.removeHolidayOverrideMessage(dateKey)
+    });
+    if (confirmed) {
+      removeHolidayOverride(dateKey);
+      await reload();
+    }
+  };
+
+  return (
+    <List navigationTitle={messages.holidaysTitle}>
+      <Section footer={<Text>{messages.holidaysFooter}</Text>}>
+        {dateKeys.length > 0
+          ? dateKeys.map(dateKey => {
+            const holiday = overrides[dateKey];
+            return (
+              <Button
+                title={`${dateKey} ${messages.holidayOverrideLabel(holiday ? holiday.name : null, holiday?.type === 'workday')}`}
+                action={() => confirmRemove(dateKey)}
+              />
+            );
+          })
+          : <Text foregroundStyle="secondaryLabel">{messages.noHolidayOverrides}</Text>}
+        <Button title={messages.addHolidayOverride} action={promptAdd} />
+      </Section>
+    </List>
+  );
+}
+
+/**
+ * 通勤城市页面：选择最多三个城市，在"通勤"小组件中同时显示各城市今天和明天的限行信息
+ */
+function CommuteSettingsPage() {
+  const [cities, setCities] = useState<string[]>(getCommuteCities());
+  const [query, setQuery] = useState('');
+  const isFull = cities.length >= MAX_COMMUTE_CITIES;
+  const messages = getMessages();
+
+  const applyCities = (newCities: string[]) => {
+    setCities(saveCommuteCities(newCities));
+  };
+
+  const addCity = async (city: string) => {
+    if (cities.includes(city)) {
+      return;
+    }
+    if (isFull) {
+      await Dialog.alert({ message: messages.commuteLimitReached(MAX_COMMUTE_CITIES) });
+      return;
+    }
+    applyCities([...cities, city]);
+  };
+
+  const promptCity = async () => {
+    const city = await Dialog.prompt({
+      title: messages.enterCityTitle,
+      message: messages.enterCityMessage,
+      placeholder: messages.commuteCityPlaceholder
+    });
+    if (city && city.trim()) {
+      await addCity(resolveCityId(city));
+    }
+  };
+
+  return (
+    <List navigationTitle={messages.commuteCitiesTitle}>
+      <Section
+        header={<Text>{messages.commuteSelectedHeader(cities.length, MAX_COMMUTE_CITIES)}</Text>}
+        footer={<Text>{messages.commuteFooter}</Text>}
+      >
+        {cities.length > 0
+          ? cities.map(city => (
+            <Button title={getLocalizedCityName(city)} action={() => applyCities(cities.filter(item => item !== city))} />
+          ))
+          : <Text foregroundStyle="secondaryLabel">{messages.noCommuteCities}</Text>}
+      </Section>
+      <Section header={<Text>{messages.addCityHeader}</Text>}>
+        <TextField title={messages.searchTitle} value={query} onChanged={setQuery} prompt={messages.citySearchPrompt} />
+        {searchCities(query).map(city => (
+          <Button
+            title={`${messages.labelWithDetail(getLocalizedCityName(city.id), city.platePrefix)}${cities.includes(city.id) ? ' ✓' : ''}`}
+            action={() => addCity(city.id)}
+          />
+        ))}
+        <Button title={messages.enterCityAction} action={promptCity} />
+      </Section>
+    </List>
+  );
+}
+
+/**
+ * 小组件主题页面：选择小组件的配色和字号
+ */
+function ThemeSettingsPage({ onChanged }: { onChanged: () => void }) {
+  const [themeId, setThemeId] = useState<ThemeId>(getThemeId());
+  const messages = getMessages();
+
+  const selectTheme = (id: ThemeId) => {
+    saveThemeId(id);
+    setThemeId(id);
+    onChanged();
+  };
+
+  return (
+    <List navigationTitle={messages.themeTitle}>
+      <Section footer={<Text>{messages.themeFooter}</Text>}>
+        {(Object.keys(WIDGET_THEMES) as ThemeId[]).map(id => (
+          <Button title={`${messages.themeNames[id]}${themeId === id ? ' ✓' : ''}`} action={() => selectTheme(id)} />
+        ))}
+      </Section>
+    </List>
+  );
+}
+
+/**
+ * 获取语言设置的显示名称
+ */
+function getLanguageLabel(setting: LanguageSetting): string {
+  return setting === 'system' ? getMessages().followSystem : MESSAGE_CATALOG[setting].languageName;
+}
+
+/**
+ * 语言设置页面：选择小组件和通知使用的语言
+ */
+function LanguageSettingsPage({ onChanged }: { onChanged: () => void }) {
+  const [setting, setSetting] = useState<LanguageSetting>(getLanguageSetting());
+  const options: LanguageSetting[] = ['system', ...(Object.keys(MESSAGE_CATALOG) as Locale[])];
+  const messages = getMessages();
+
+  const selectLanguage = (value: LanguageSetting) => {
+    saveLanguageSetting(value);
+    setSetting(value);
+    onChanged();
+  };
+
+  return (
+    <List navigationTitle={messages.languageTitle}>
+      <Section footer={<Text>{messages.languageFooter}</Text>}>
+        {options.map(value => (
+          <Button title={`${getLanguageLabel(value)}${setting === value ? ' ✓' : ''}`} action={() => selectLanguage(value)} />
+        ))}
+      </Section>
+    </List>
+  );
+}
+
+/**
+ * 数据源设置页面：启用或停用数据源、调整尝试顺序
+ */
+function ProviderSettingsPage({ onChanged }: { onChanged: () => void }) {
+  const [chain, setChain] = useState(getProviderChain());
+  const messages = getMessages();
+
+  const applyChain = (newChain: typeof chain) => {
+    saveProviderChain(newChain);
+    setChain(newChain);
+    onChanged();
+  };
+
+  return (
+    <List navigationTitle={messages.providersTitle}>
+      <Section footer={<Text>{messages.providersFooter}</Text>}>
+        {chain.map((config, index) => (
+          <Toggle
+            title={`${index + 1}. ${getProviderName(config.id)}`}
+            value={config.enabled}
+            onChanged={(enabled: boolean) => applyChain(chain.map(item => item.id === config.id ? { ...item, enabled } : item))}
+          />
+        ))}
+      </Section>
+      <Section header={<Text>{messages.reorderHeader}</Text>}>
+        {chain.slice(1).map(config => (
+          <Button
+            title={messages.preferProvider(getProviderName(config.id))}
+            action={() => applyChain([config, ...chain.filter(item => item.id !== config.id)])}
+          />
+        ))}
+      </Section>
+    </List>
+  );
+}
+
+/**
+ * 主页面：今天、明天和本周的限行概览，数据来源，设置入口和维护操作
+ */
+function DashboardPage() {
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = async (options?: LimitQueryOptions) => {
+    setLoading(true);
+    const weekly = await getWeeklyLimitNumbers(options);
+    const tomorrowDate = addDays(startOfDay(), 1);
+    setData({
+      weekly,
+      today: weekly.weeklyLimitInfo.find(dayInfo => dayInfo.isToday) || null,
+      tomorrow: {
+        date: tomorrowDate,
+        limitInfo: getDayLimitRule(weekly.city, tomorrowDate),
+        holiday: getHolidayInfo(tomorrowDate)
+      }
+    });
+    setLoading(false);
+
+    try {
+      await updateReminders(weekly.city);
+    } catch (e) {
+      console.error('安排限行提醒失败:', e);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const messages = getMessages();
+
+  const clearCache = async () => {
+    if (!data) {
+      return;
+    }
+    const confirmed = await Dialog.confirm({
+      title: messages.clearCache,
+      message: messages.clearCacheMessage(getLocalizedCityName(data.weekly.city))
+    });
+    if (confirmed) {
+      clearCachedLimitData(data.weekly.city);
+      await load();
+    }
+  };
+
+  const redetectLocation = async () => {
+    if (isFixedCity()) {
+      await Dialog.alert({ message: messages.fixedCityAlert });
+      return;
+    }
+    await load({ forceRefreshCity: true });
+  };
+
+  const onSettingsChanged = () => {
+    load();
+  };
+
+  if (!data) {
+    return (
+      <List navigationTitle={messages.appName}>
+        <Text foregroundStyle="secondaryLabel">{loading ? messages.loading : messages.noData}</Text>
+      </List>
+    );
+  }
+
+  const { weekly, today, tomorrow } = data;
+  const { freshness, refresh } = weekly;
+  const todayStatus = today ? formatTimeWindowStatus(getTimeWindowStatus(today.limitInfo)) : '';
+  const holidayOverrideCount = Object.keys(getHolidayOverrides()).length;
+
+  return (
+    <List navigationTitle={`${messages.appName} · ${getLocalizedCityName(weekly.city)}`}>
+      <Section header={<Text>{messages.today} {formatDayLabel(startOfDay())}</Text>} footer={todayStatus ? <Text>{todayStatus}</Text> : undefined}>
+        <Text font="title2" fontWeight="bold">
+          {today ? getRuleLabel(today.limitInfo, today.holiday) : messages.noTodayData}
+        </Text>
+        {today ? createVehicleVerdictRows(today.limitInfo) : null}
+      </Section>
+
+      <Section header={<Text>{messages.tomorrow} {formatDayLabel(tomorrow.date)}</Text>}>
+        <Text font="headline">{getRuleLabel(tomorrow.limitInfo, tomorrow.holiday)}</Text>
+        {createVehicleVerdictRows(tomorrow.limitInfo)}
+      </Section>
+
+      <Section header={<Text>{messages.weekHeader}</Text>}>
+        {weekly.weeklyLimitInfo.map(dayInfo => (
+          <InfoRow
+            title={`${getWeekdayName(dayInfo.dayIndex)}${dayInfo.isToday ? messages.todaySuffix : ''}`}
+            value={getRuleLabel(dayInfo.limitInfo, dayInfo.holiday)}
+          />
+        ))}
+      </Section>
+
+      <Section header={<Text>{messages.dataHeader}</Text>}>
+        <InfoRow title={messages.cityTitle} value={`${getLocalizedCityName(weekly.city)}${isFixedCity() ? messages.fixedCityMark : ''}`} />
+        <InfoRow title={messages.sourceTitle} value={messages.sourceNames[today ? today.limitInfo.source : 'none']} />
+        <InfoRow title={messages.fetchedAtTitle} value={freshness.updatedAt !== null ? formatDateTime(freshness.updatedAt) : messages.notFetched} />
+        <InfoRow title={messages.statusTitle} value={freshness.stale ? messages.staleStatus(freshness.failureCount) : messages.latestStatus} />
+        {freshness.stale && freshness.nextRetryAt !== null
+          ? <InfoRow title={messages.nextRetryTitle} value={formatDateTime(freshness.nextRetryAt)} />
+          : null}
+        {refresh
+          ? <InfoRow
+            title={messages.lastRefreshTitle}
+            value={messages.refreshSummary(
+              refresh.providerId ? getProviderName(refresh.providerId) : messages.allProvidersFailed,
+              refresh.requestCount,
+              refresh.latencyMs
+            )}
+          />
+          : null}
+      </Section>
+
+      <Section header={<Text>{messages.settingsHeader}</Text>}>
+        <NavigationLink destination={<CitySettingsPage onChanged={onSettingsChanged} />}>
+          <InfoRow title={messages.cityTitle} value={getCityPreferenceLabel(getCityPreference())} />
+        </NavigationLink>
+        <NavigationLink destination={<GaragePage city={weekly.city} onChanged={onSettingsChanged} />}>
+          <InfoRow title={messages.garageTitle} value={messages.vehicleCount(getGarage().length)} />
+        </NavigationLink>
+        <NavigationLink destination={<ReminderSettingsPage city={weekly.city} />}>
+          <InfoRow title={messages.remindersTitle} value={getReminderSettings().enabled ? messages.enabled : messages.disabled} />
+        </NavigationLink>
+        <NavigationLink destination={<HolidaySettingsPage city={weekly.city} onChanged={onSettingsChanged} />}>
+          <InfoRow title={messages.holidaysTitle} value={holidayOverrideCount > 0 ? messages.holidayOverrideCount(holidayOverrideCount) : messages.notSet} />
+        </NavigationLink>
+        <NavigationLink destination={<CommuteSettingsPage />}>
+          <InfoRow title={messages.commuteCitiesTitle} value={getCommuteCities().map(getLocalizedCityName).join(messages.listSeparator) || messages.notSet} />
+        </NavigationLink>
+        <NavigationLink destination={<ThemeSettingsPage onChanged={onSettingsChanged} />}>
+          <InfoRow title={messages.themeTitle} value={messages.themeNames[getThemeId()]} />
+        </NavigationLink>
+        <NavigationLink destination={<LanguageSettingsPage onChanged={onSettingsChanged} />}>
+          <InfoRow title={messages.languageTitle} value={getLanguageLabel(getLanguageSetting())} />
+        </NavigationLink>
+        <NavigationLink destination={<ProviderSettingsPage onChanged={onSettingsChanged} />}>
+          <Text>{messages.providersTitle}</Text>
+        </NavigationLink>
+      </Section>
+
+      <Section header={<Text>{messages.maintenanceHeader}</Text>} footer={loading ? <Text>{messages.loading}</Text> : undefined}>
+        <Button title={messages.forceRefresh} action={() => load({ forceRefresh: true })} />
+        <Button title={messages.clearCache} role="destructive" action={clearCache} />
+        <Button title={messages.redetectLocation} action={redetectLocation} />
+      </Section>
+    </List>
+  );
+}
+
+/**
+ * 显示主页面，关闭后退出脚本
+ */
+async function run() {
+  await Navigation.present({
+    element: (
+      <NavigationStack>
+        <DashboardPage />
+      </NavigationStack>
+    )
+  });
+  Script.exit();
+}
+
+run();
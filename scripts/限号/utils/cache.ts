@@ -0,0 +1,225 @@
+// 限号信息缓存模块
+// 按城市和日期保存最近一次成功获取的限行规则，获取失败时不覆盖已有数据，并按退避时间重试
+
+import { addDays, formatDateKey, formatTime, getWeekDates } from './calendar'
+import { WEEK_DAYS } from './cityRules'
+import { ProviderResult } from './provider'
+import { RestrictionRule } from './restriction'
+
+/**
+ * 缓存键前缀
+ */
+export const CACHE_KEY_PREFIX = 'limitNumbers_';
+
+/**
+ * 缓存数据版本，数据结构变化时递增，旧版本缓存视为无效
+ */
+export const CACHE_VERSION = 3;
+
+/**
+ * 缓存保留的天数，更早日期的数据在写入时清理
+ */
+const CACHE_RETENTION_DAYS = 14;
+
+/**
+ * 刷新失败后的首次重试间隔（毫秒），之后每次失败翻倍
+ */
+const RETRY_BASE_DELAY = 5 * 60 * 1000;
+
+/**
+ * 刷新失败后的最长重试间隔（毫秒）
+ */
+const RETRY_MAX_DELAY = 2 * 60 * 60 * 1000;
+
+/**
+ * 某一天缓存的限行规则
+ */
+export interface CachedRule {
+  rule: RestrictionRule;   // 成功获取的限行规则（不含节假日调整）
+  fetchedAt: number;       // 获取时间戳
+}
+
+/**
+ * 缓存数据结构
+ */
+export interface CacheData {
+  version: number;                      // 缓存数据版本
+  days: Record<string, CachedRule>;     // 按日期（YYYY-MM-DD）保存最近一次成功获取的限行规则
+  lastSuccessAt: number | null;         // 最近一次刷新成功的时间戳
+  lastAttemptAt: number | null;         // 最近一次尝试刷新的时间戳
+  failureCount: number;                 // 连续刷新失败的次数
+  nextRetryAt: number | null;           // 刷新失败后下次允许重试的时间戳
+  lastError: RestrictionRule['error'] | null;  // 最近一次刷新失败的原因
+}
+
+/**
+ * 缓存数据的新鲜度，用于在小组件中显示数据是否过期
+ */
+export interface CacheFreshness {
+  stale: boolean;               // 今天尚未成功刷新，显示的是上次成功获取的数据
+  updatedAt: number | null;     // 上次成功获取的时间戳
+  nextRetryAt: number | null;   // 下次重试的时间戳，未失败时为null
+  failureCount: number;         // 连续刷新失败的次数
+}
+
+/**
+ * 创建空缓存
+ */
+function createEmptyCache(): CacheData {
+  return {
+    version: CACHE_VERSION,
+    days: {},
+    lastSuccessAt: null,
+    lastAttemptAt: null,
+    failureCount: 0,
+    nextRetryAt: null,
+    lastError: null
+  };
+}
+
+/**
+ * 读取指定城市的缓存数据，版本不匹配时视为无缓存
+ * @param city 城市ID
+ * @returns 缓存数据，不存在或无效时返回null
+ */
+export function getCachedLimitData(city: string): CacheData | null {
+  const cacheData = Storage.get<CacheData>(`${CACHE_KEY_PREFIX}${city}`);
+  if (!cacheData || cacheData.version !== CACHE_VERSION) {
+    return null;
+  }
+  return cacheData;
+}
+
+/**
+ * 读取缓存中指定日期的限行规则
+ * @param cacheData 缓存数据
+ * @param date 日期
+ * @returns 最近一次成功获取的限行规则，没有时返回null
+ */
+export function getCachedRule(cacheData: CacheData | null, date: Date): RestrictionRule | null {
+  const cachedRule = cacheData ? cacheData.days[formatDateKey(date)] : undefined;
+  return cachedRule ? cachedRule.rule : null;
+}
+
+/**
+ * 读取缓存中指定日期之前最近一个相同星期几的限行规则（如上周同一天），用于当天没有缓存时临时代替
+ * 各城市的限行尾号通常按星期几排列，相同星期几的数据比前一天的数据更接近当天的实际情况
+ * @param cacheData 缓存数据
+ * @param date 日期
+ * @returns 限行规则，缓存保留期内没有时返回null
+ */
+export function getLatestCachedRule(cacheData: CacheData | null, date: Date): RestrictionRule | null {
+  for (let daysAgo = 7; daysAgo <= CACHE_RETENTION_DAYS; daysAgo += 7) {
+    const cachedRule = getCachedRule(cacheData, addDays(date, -daysAgo));
+    if (cachedRule) {
+      return cachedRule;
+    }
+  }
+  return null;
+}
+
+/**
+ * 清除指定城市的缓存数据
+ * @param city 城市ID
+ */
+export function clearCachedLimitData(city: string): void {
+  Storage.remove(`${CACHE_KEY_PREFIX}${city}`);
+  console.log(`已清除${city}的限号信息缓存`);
+}
+
+/**
+ * 判断缓存是否为今天刷新成功的数据
+ * @param cacheData 缓存数据
+ * @param now 当前时间
+ */
+export function isCacheFresh(cacheData: CacheData | null, now: Date = new Date()): boolean {
+  if (!cacheData || cacheData.lastSuccessAt === null || !getCachedRule(cacheData, now)) {
+    return false;
+  }
+  return formatDateKey(new Date(cacheData.lastSuccessAt)) === formatDateKey(now);
+}
+
+/**
+ * 判断是否需要刷新：今天尚未刷新成功，且已过了失败后的退避时间
+ * @param cacheData 缓存数据
+ * @param now 当前时间
+ */
+export function shouldRefreshCache(cacheData: CacheData | null, now: Date = new Date()): boolean {
+  if (isCacheFresh(cacheData, now)) {
+    return false;
+  }
+  return !cacheData || cacheData.nextRetryAt === null || now.getTime() >= cacheData.nextRetryAt;
+}
+
+/**
+ * 获取缓存数据的新鲜度
+ * @param cacheData 缓存数据
+ * @param now 当前时间
+ */
+export function getCacheFreshness(cacheData: CacheData | null, now: Date = new Date()): CacheFreshness {
+  return {
+    stale: !isCacheFresh(cacheData, now),
+    updatedAt: cacheData ? cacheData.lastSuccessAt : null,
+    nextRetryAt: cacheData ? cacheData.nextRetryAt : null,
+    failureCount: cacheData ? cacheData.failureCount : 0
+  };
+}
+
+/**
+ * 计算第几次失败后的重试间隔（指数退避）
+ * @param failureCount 连续失败次数（从1开始）
+ */
+function getRetryDelay(failureCount: number): number {
+  return Math.min(RETRY_BASE_DELAY * Math.pow(2, Math.max(failureCount - 1, 0)), RETRY_MAX_DELAY);
+}
+
+/**
+ * 将一次刷新的结果写入缓存
+ * 只写入获取成功的规则，获取失败的日期保留已有数据；当天规则获取失败时记录失败次数和下次重试时间
+ * @param city 城市ID
+ * @param result 数据源返回的限行信息（一周信息以"周一"到"周日"为键，对应now所在的一周）
+ * @param now 刷新时间
+ * @returns 写入后的缓存数据
+ */
+export function saveLimitData(city: string, result: ProviderResult, now: Date = new Date()): CacheData {
+  const cacheData = getCachedLimitData(city) || createEmptyCache();
+  const fetchedAt = now.getTime();
+
+  // 一周信息按星期保存，转换为本周对应的日期
+  const weekDates = getWeekDates(now);
+  let savedDays = 0;
+  WEEK_DAYS.forEach((day, index) => {
+    const rule = result.weeklyData[day];
+    if (rule && rule.mode !== 'error') {
+      cacheData.days[formatDateKey(weekDates[index])] = { rule, fetchedAt };
+      savedDays++;
+    }
+  });
+
+  // 当天规则最后写入，优先于一周信息中的同一天
+  cacheData.lastAttemptAt = fetchedAt;
+  if (result.todayData.mode !== 'error') {
+    cacheData.days[formatDateKey(now)] = { rule: result.todayData, fetchedAt };
+    cacheData.lastSuccessAt = fetchedAt;
+    cacheData.failureCount = 0;
+    cacheData.nextRetryAt = null;
+    cacheData.lastError = null;
+    console.log(`已更新${city}缓存中的限号信息（当天和${savedDays}天的一周数据）`);
+  } else {
+    cacheData.failureCount++;
+    cacheData.nextRetryAt = fetchedAt + getRetryDelay(cacheData.failureCount);
+    cacheData.lastError = result.todayData.error || null;
+    console.log(`${city}刷新失败（连续${cacheData.failureCount}次），保留已有缓存，${formatTime(new Date(cacheData.nextRetryAt))}后重试`);
+  }
+
+  // 清理过期日期的数据
+  const oldestDateKey = formatDateKey(addDays(now, -CACHE_RETENTION_DAYS));
+  for (const dateKey of Object.keys(cacheData.days)) {
+    if (dateKey < oldestDateKey) {
+      delete cacheData.days[dateKey];
+    }
+  }
+
+  Storage.set<CacheData>(`${CACHE_KEY_PREFIX}${city}`, cacheData);
+  return cacheData;
+}
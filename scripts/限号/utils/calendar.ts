@@ -0,0 +1,137 @@
+// 日历模块
+// 所有日期按中国标准时间（Asia/Shanghai，UTC+8，无夏令时）计算，与设备时区无关。
+// 日期统一用Date表示：表示某一天时使用该天北京时间零点对应的时刻
+
+/**
+ * 一天的毫秒数
+ */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 北京时间相对UTC的偏移（毫秒）
+ */
+const SHANGHAI_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * 北京时间的日期和时间各部分
+ */
+export interface DateParts {
+  year: number;
+  month: number;      // 1-12
+  day: number;        // 1-31
+  hours: number;
+  minutes: number;
+  seconds: number;
+  weekdayIndex: number;   // 0=周一 ... 6=周日，与WEEK_DAYS的索引一致
+}
+
+/**
+ * 获取指定时刻在北京时间下的日期和时间各部分
+ * @param date 时刻，默认为当前时间
+ */
+export function getDateParts(date: Date = new Date()): DateParts {
+  const shifted = new Date(date.getTime() + SHANGHAI_OFFSET_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hours: shifted.getUTCHours(),
+    minutes: shifted.getUTCMinutes(),
+    seconds: shifted.getUTCSeconds(),
+    weekdayIndex: (shifted.getUTCDay() + 6) % 7
+  };
+}
+
+/**
+ * 根据北京时间的年月日创建日期（该天北京时间零点）
+ * @param year 年
+ * @param month 月（1-12，超出范围时自动进位）
+ * @param day 日（超出范围时自动进位）
+ */
+export function createDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day) - SHANGHAI_OFFSET_MS);
+}
+
+/**
+ * 获取指定时刻所在的一天（北京时间零点）
+ * @param date 时刻，默认为当前时间
+ */
+export function startOfDay(date: Date = new Date()): Date {
+  const { year, month, day } = getDateParts(date);
+  return createDate(year, month, day);
+}
+
+/**
+ * 日期加减天数
+ * @param date 日期
+ * @param days 天数，负数表示向前
+ */
+export function addDays(date: Date, days: number): Date {
+  // 北京时间没有夏令时，每天都是固定的24小时
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * 计算两个日期之间相差的天数（按北京时间的日期计算，忽略时间部分）
+ * @returns to - from 的天数
+ */
+export function diffDays(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+}
+
+/**
+ * 格式化日期为YYYY-MM-DD（北京时间），用于缓存和节假日数据中的日期键
+ */
+export function formatDateKey(date: Date): string {
+  const { year, month, day } = getDateParts(date);
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+}
+
+/**
+ * 解析YYYY-MM-DD格式的日期键
+ * @returns 该天北京时间零点，格式无效时返回null
+ */
+export function parseDateKey(dateKey: string): Date | null {
+  const match = dateKey.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) {
+    return null;
+  }
+  return createDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+}
+
+/**
+ * 格式化时间为HH:MM（北京时间）
+ */
+export function formatTime(date: Date): string {
+  const { hours, minutes } = getDateParts(date);
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+/**
+ * 获取星期索引（0=周一 ... 6=周日），与WEEK_DAYS的索引一致
+ */
+export function getWeekdayIndex(date: Date): number {
+  return getDateParts(date).weekdayIndex;
+}
+
+/**
+ * 判断是否为周末（周六或周日）
+ */
+export function isWeekend(date: Date): boolean {
+  return getWeekdayIndex(date) >= 5;
+}
+
+/**
+ * 获取日期所在ISO周的周一
+ */
+export function getWeekStart(date: Date): Date {
+  return addDays(startOfDay(date), -getWeekdayIndex(date));
+}
+
+/**
+ * 获取日期所在ISO周的七天（周一到周日）
+ */
+export function getWeekDates(date: Date): Date[] {
+  const monday = getWeekStart(date);
+  return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+}
@@ -1,65 +1,150 @@
 // 城市相关工具模块
 import { Notification } from 'scripting';
+import { withTimeout } from './base';
+import { formatDateKey } from './calendar';
+import { getCityName, resolveCityFromPlacemark, resolveCityId } from './cityRegistry';
+import { getLocalizedCityName, getMessages } from './i18n';
+import {
+  getLastCityLocation,
+  isCityLocationRecent,
+  recordCityLocation,
+  shouldResolveCity
+} from './locationChange';
 /**
- * 默认城市，当无法获取位置时使用
- * 现在默认为空，获取不到城市时会发送通知
+ * 默认城市ID，使用定位且无法获取位置时使用，同时发送通知提示用户指定城市
  */
-export const DEFAULT_CITY = '北京';
+export const DEFAULT_CITY = 'beijing';
 
 /**
- * 一周的日期数组
+ * 城市偏好缓存键
  */
-export const WEEK_DAYS = ['周一', '周二', '周三', '周四', '周五', '周六', '周日'];
+export const CITY_PREFERENCE_KEY = 'cityPreference';
 
 /**
- * 城市特定的周末限行规则配置
- * 数据来源：基于网络搜索结果整理，实际政策可能有变化，请以官方发布为准
+ * 旧版按天缓存城市的缓存键，仅用于清理
  */
-export const CITY_WEEKEND_RULES: Record<string, boolean> = {
-  '北京': true,    // 北京正常情况下周末不限行
-  '上海': true,    // 上海周末不限行
-  '广州': true,    // 广州周末不限行
-  '深圳': true,    // 深圳正常情况下周末不限行
-  '杭州': true,    // 杭州正常情况下周末不限行
-  '西安': true,    // 西安正常情况下周末不限行
-  // 注意：某些城市在特定时期可能会临时调整政策，实施周末限行
-  // 例如成都在特定活动期间（如2025年8月3日至17日）曾实施周末限行
-  // 可以根据实际情况添加更多城市的规则
-};
+const LEGACY_CITY_CACHE_KEY = 'userCity';
+const LEGACY_CITY_CACHE_DATE_KEY = 'userCityCacheDate';
 
 /**
- * 带超时的异步操作包装器
- * @param promise 原始Promise
- * @param timeoutMs 超时时间（毫秒）
- * @param fallbackValue 超时时的回退值
+ * 当天已提示过定位不可用的日期缓存键，避免重复发送通知
  */
-async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, fallbackValue: T): Promise<T> {
-  return new Promise((resolve) => {
-    const timeoutId = setTimeout(() => {
-      console.log(`操作超时（${timeoutMs}ms），使用回退值`);
-      resolve(fallbackValue);
-    }, timeoutMs);
-    
-    promise.then(
-      (value) => {
-        clearTimeout(timeoutId);
-        resolve(value);
-      },
-      () => {
-        clearTimeout(timeoutId);
-        resolve(fallbackValue);
-      }
+const LOCATION_NOTICE_DATE_KEY = 'locationNoticeDate';
+
+/**
+ * 城市选择方式
+ * auto: 使用定位，定位失败时使用默认城市并通知；fixed: 固定城市，不使用定位；
+ * autoWithFallback: 使用定位，定位失败时使用指定的城市
+ */
+export type CityMode = 'auto' | 'fixed' | 'autoWithFallback';
+
+/**
+ * 城市偏好
+ */
+export interface CityPreference {
+  mode: CityMode;
+  city: string | null;    // 城市ID，fixed时为固定城市，autoWithFallback时为定位失败时使用的城市
+}
+
+/**
+ * 默认城市偏好：使用定位
+ */
+export const DEFAULT_CITY_PREFERENCE: CityPreference = { mode: 'auto', city: null };
+
+/**
+ * 获取城市偏好
+ */
+export function getCityPreference(): CityPreference {
+  return Storage.get<CityPreference>(CITY_PREFERENCE_KEY) || DEFAULT_CITY_PREFERENCE;
+}
+
+/**
+ * 保存城市偏好
+ * @param preference 城市偏好，fixed和autoWithFallback必须指定城市
+ */
+export function saveCityPreference(preference: CityPreference): void {
+  Storage.set<CityPreference>(CITY_PREFERENCE_KEY, preference);
+  console.log(`已保存城市偏好: ${preference.mode}${preference.city ? `（${preference.city}）` : ''}`);
+}
+
+/**
+ * 判断是否使用固定城市（不使用定位）
+ */
+export function isFixedCity(preference: CityPreference = getCityPreference()): boolean {
+  return preference.mode === 'fixed' && !!preference.city;
+}
+
+/**
+ * 提示用户定位不可用，每天最多提示一次
+ * @param body 通知内容
+ * @param subtitle 通知副标题
+ */
+async function notifyLocationUnavailable(body: string, subtitle: string): Promise<void> {
+  const today = formatDateKey(new Date());
+  if (Storage.get<string>(LOCATION_NOTICE_DATE_KEY) === today) {
+    return;
+  }
+  Storage.set<string>(LOCATION_NOTICE_DATE_KEY, today);
+
+  try {
+    console.log('发送通知提示用户给予定位权限或指定城市');
+    const messages = getMessages();
+    // 使用Notification API发送通知
+    await withTimeout(
+      Notification.schedule({
+        title: messages.notificationTitle,
+        body,
+        subtitle,
+        interruptionLevel: 'active',
+        actions: [
+          {
+            title: messages.specifyCityAction,
+            url: 'scripting://open?scriptName=限号'
+          }
+        ],
+        tapAction: {
+          type: 'runScript',
+          scriptName: '限号'
+        }
+      }),
+      2000, // 2秒超时
+      null
     );
-  });
+  } catch (notificationError) {
+    console.error('发送通知失败:', notificationError);
+  }
+}
+
+/**
+ * 定位失败时使用的城市
+ * autoWithFallback使用指定的城市；auto使用默认城市，并提示用户
+ */
+async function getFallbackCity(preference: CityPreference, noticeBody: string, noticeSubtitle: string): Promise<string> {
+  if (preference.mode === 'autoWithFallback' && preference.city) {
+    console.log('无法获取城市信息，使用指定的备用城市:', getCityName(preference.city));
+    return preference.city;
+  }
+
+  console.log('无法获取城市信息，使用默认城市:', getCityName(DEFAULT_CITY));
+  await notifyLocationUnavailable(getMessages().fallbackCityNotice(noticeBody, getLocalizedCityName(DEFAULT_CITY)), noticeSubtitle);
+  return DEFAULT_CITY;
 }
 
 /**
  * 获取用户所在城市
  * @param options 配置选项
  * @param options.forceRefresh 是否强制刷新，清除缓存重新获取城市信息
- * @returns 用户城市名称
+ * @returns 用户所在城市的城市ID
  */
 export async function getUserCity(options?: { forceRefresh?: boolean }) {
+  const preference = getCityPreference();
+
+  // 固定城市时不调用任何定位API
+  if (isFixedCity(preference)) {
+    console.log('使用固定城市:', preference.city);
+    return preference.city as string;
+  }
+
   try {
     const { forceRefresh = false } = options || {};
     
@@ -75,37 +160,19 @@ export async function getUserCity(options?: { forceRefresh?: boolean }) {
       const tempCacheAge = now - parseInt(cachedTempCityTimestamp, 10);
       if (tempCacheAge < 30000) { // 30秒内
         console.log('从临时缓存获取城市信息:', cachedTempCity);
-        return cachedTempCity;
+        return resolveCityId(cachedTempCity);
       }
     }
     
-    // 检查是否需要每天重新获取一次
-    const cityCacheDateKey = 'userCityCacheDate';
-    const cachedCity = Storage.get<string>('userCity');
-    const cachedDate = Storage.get<string>(cityCacheDateKey);
-    const today = new Date().toDateString(); // 获取当前日期的字符串表示（不含时间）
-    
-    // 如果不是强制刷新，并且缓存存在且日期是今天，则直接返回缓存的城市
-    if (!forceRefresh && cachedCity && cachedDate && cachedDate === today) {
-      console.log('从缓存获取城市信息（今日已更新）:', cachedCity);
-      // 清除临时缓存，因为我们有了正式的缓存
-      Storage.remove(tempCityKey);
-      Storage.remove(tempCityTimestampKey);
-      return cachedCity;
-    }
-    
-    // 强制刷新或缓存已过期（不是今天的），清除相关缓存
-    Storage.remove('userCity');
-    Storage.remove(cityCacheDateKey);
+    // 旧版本按天缓存城市，已由位置变化检测取代
+    Storage.remove(LEGACY_CITY_CACHE_KEY);
+    Storage.remove(LEGACY_CITY_CACHE_DATE_KEY);
     Storage.remove(tempCityKey);
     Storage.remove(tempCityTimestampKey);
     
+    const lastLocation = getLastCityLocation();
     if (forceRefresh) {
-      console.log('清除城市缓存，强制重新获取');
-    } else if (cachedCity && cachedDate !== today) {
-      console.log('城市缓存已过期（日期不匹配），重新获取');
-    } else {
-      console.log('首次运行或无有效缓存，尝试获取位置信息');
+      console.log('强制重新识别城市');
     }
 
     try {
@@ -130,6 +197,12 @@ export async function getUserCity(options?: { forceRefresh?: boolean }) {
       if (locationInfo) {
         console.log('获取位置信息成功:', locationInfo);
         
+        // 移动距离和时长都未超过设定值时沿用上次识别的城市，不再进行反向地理编码
+        if (!forceRefresh && lastLocation && !shouldResolveCity(locationInfo, lastLocation)) {
+          console.log('位置未明显变化，沿用上次识别的城市:', lastLocation.city);
+          return lastLocation.city;
+        }
+        
         // 使用反向地理编码获取地址信息
         const placemarks = await withTimeout(
           Location.reverseGeocode({
@@ -145,15 +218,14 @@ export async function getUserCity(options?: { forceRefresh?: boolean }) {
           const placemark = placemarks[0];
           console.log('获取地址信息成功:', placemark);
           
-          // 提取城市名称
-          // 根据placemark的实际结构来提取城市名
-          let city = placemark.locality || '';
+          // 将地址信息规范化为城市ID：locality可能为"北京市"、区名或为空（直辖市），
+          // 由城市注册表依次尝试locality、subAdministrativeArea、administrativeArea
+          const city = resolveCityFromPlacemark(placemark);
           
           if (city) {
-            console.log('提取到城市:', city);
-            // 缓存城市信息和当前日期
-            Storage.set('userCity', city);
-            Storage.set('userCityCacheDate', new Date().toDateString());
+            console.log('识别到城市:', city, getCityName(city));
+            // 记录位置和城市，城市变化时由限号信息服务刷新新城市的数据并通知
+            recordCityLocation(locationInfo, city);
             return city;
           }
         }
@@ -162,76 +234,23 @@ export async function getUserCity(options?: { forceRefresh?: boolean }) {
       console.log('获取地理位置信息失败:', geocodeError);
     }
     
-    console.log('无法获取城市信息，使用默认城市:', DEFAULT_CITY);
-      
-      // 设置临时缓存，避免短时间内重复尝试获取位置信息
-      Storage.set(tempCityKey, DEFAULT_CITY);
-      Storage.set(tempCityTimestampKey, Date.now().toString());
-      
-      // 如果默认城市为空，发送通知提示用户
-      if (!DEFAULT_CITY) {
-        try {
-          console.log('发送通知提示用户给予定位权限');
-          // 使用Notification API发送通知
-          await withTimeout(
-            Notification.schedule({
-              title: '限号查询',
-              body: '无法获取您的城市信息，请检查定位权限并重试',
-              subtitle: '位置服务不可用',
-              interruptionLevel: 'active',
-              actions: [
-                {
-                  title: '重试',
-                  url: 'scripting://open?scriptName=限号'
-                }
-              ],
-              tapAction: {
-                type: 'runScript',
-                scriptName: '限号'
-              }
-            }),
-            2000, // 2秒超时
-            null
-          );
-        } catch (notificationError) {
-          console.error('发送通知失败:', notificationError);
-        }
-      }
-      
-      return DEFAULT_CITY;
-    } catch (e) {
-      console.error('获取城市信息失败:', e);
+    // 定位失败时，上次识别的城市未超过设定时长则继续使用
+    if (!forceRefresh && lastLocation && isCityLocationRecent(lastLocation)) {
+      console.log('定位失败，沿用上次识别的城市:', lastLocation.city);
+      return lastLocation.city;
+    }
+    
+    const messages = getMessages();
+    const fallbackCity = await getFallbackCity(preference, messages.locationUnavailableBody, messages.locationUnavailableSubtitle);
       
-      // 如果默认城市为空，发送通知提示用户
-      if (!DEFAULT_CITY) {
-        try {
-          console.log('发送通知提示用户给予定位权限');
-          // 使用Notification API发送通知
-          await withTimeout(
-            Notification.schedule({
-              title: '限号查询',
-              body: '获取城市信息时发生错误，请检查定位权限并重试',
-              subtitle: '位置服务错误',
-              interruptionLevel: 'active',
-              actions: [
-                {
-                  title: '重试',
-                  url: 'scripting://open?scriptName=限号'
-                }
-              ],
-              tapAction: {
-                type: 'runScript',
-                scriptName: '限号'
-              }
-            }),
-            2000, // 2秒超时
-            null
-          );
-        } catch (notificationError) {
-          console.error('发送通知失败:', notificationError);
-        }
-      }
+    // 设置临时缓存，避免短时间内重复尝试获取位置信息
+    Storage.set(tempCityKey, fallbackCity);
+    Storage.set(tempCityTimestampKey, Date.now().toString());
       
-      return DEFAULT_CITY;
-    }
+    return fallbackCity;
+  } catch (e) {
+    console.error('获取城市信息失败:', e);
+    const messages = getMessages();
+    return getFallbackCity(preference, messages.locationErrorBody, messages.locationErrorSubtitle);
+  }
 }
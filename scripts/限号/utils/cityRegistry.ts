@@ -0,0 +1,151 @@
+// 城市注册表模块
+// 将定位得到的地址信息和用户输入的城市名称规范化为稳定的城市ID，缓存、搜索词和规则表均以城市ID为键
+// 仅包含纯数据和纯函数，不依赖Scripting App的全局API，可在Node环境中使用
+
+/**
+ * 城市信息
+ */
+export interface CityInfo {
+  id: string;             // 城市ID（拼音），用作缓存和规则表的键
+  name: string;           // 显示名称，也用于生成搜索词
+  aliases: string[];      // 别名，如全称、英文名
+  province: string;       // 所属省级行政区
+  platePrefix: string;    // 车牌前缀，如"京"、"粤A"
+}
+
+/**
+ * 地址信息中用于识别城市的字段（Scripting App中placemark的字段子集）
+ */
+export interface CityPlacemark {
+  locality?: string | null;
+  subLocality?: string | null;
+  administrativeArea?: string | null;
+  subAdministrativeArea?: string | null;
+}
+
+/**
+ * 支持的城市（实行机动车尾号限行或外地车限行、可查询到限行信息的城市）
+ * 直辖市的车牌前缀只有省级简称，其他城市包含发牌机关代号
+ */
+export const CITY_REGISTRY: CityInfo[] = [
+  { id: 'beijing', name: '北京', aliases: ['北京市', 'Beijing', 'Peking'], province: '北京市', platePrefix: '京' },
+  { id: 'tianjin', name: '天津', aliases: ['天津市', 'Tianjin'], province: '天津市', platePrefix: '津' },
+  { id: 'shanghai', name: '上海', aliases: ['上海市', 'Shanghai'], province: '上海市', platePrefix: '沪' },
+  { id: 'guangzhou', name: '广州', aliases: ['广州市', 'Guangzhou', 'Canton'], province: '广东省', platePrefix: '粤A' },
+  { id: 'shenzhen', name: '深圳', aliases: ['深圳市', 'Shenzhen'], province: '广东省', platePrefix: '粤B' },
+  { id: 'chengdu', name: '成都', aliases: ['成都市', 'Chengdu'], province: '四川省', platePrefix: '川A' },
+  { id: 'hangzhou', name: '杭州', aliases: ['杭州市', 'Hangzhou'], province: '浙江省', platePrefix: '浙A' },
+  { id: 'xian', name: '西安', aliases: ['西安市', "Xi'an", 'Xian'], province: '陕西省', platePrefix: '陕A' },
+  { id: 'lanzhou', name: '兰州', aliases: ['兰州市', 'Lanzhou'], province: '甘肃省', platePrefix: '甘A' },
+  { id: 'guiyang', name: '贵阳', aliases: ['贵阳市', 'Guiyang'], province: '贵州省', platePrefix: '贵A' },
+  { id: 'taiyuan', name: '太原', aliases: ['太原市', 'Taiyuan'], province: '山西省', platePrefix: '晋A' },
+  { id: 'changchun', name: '长春', aliases: ['长春市', 'Changchun'], province: '吉林省', platePrefix: '吉A' },
+  { id: 'haerbin', name: '哈尔滨', aliases: ['哈尔滨市', 'Harbin'], province: '黑龙江省', platePrefix: '黑A' },
+  { id: 'shijiazhuang', name: '石家庄', aliases: ['石家庄市', 'Shijiazhuang'], province: '河北省', platePrefix: '冀A' },
+  { id: 'baoding', name: '保定', aliases: ['保定市', 'Baoding'], province: '河北省', platePrefix: '冀F' },
+  { id: 'tangshan', name: '唐山', aliases: ['唐山市', 'Tangshan'], province: '河北省', platePrefix: '冀B' },
+  { id: 'langfang', name: '廊坊', aliases: ['廊坊市', 'Langfang'], province: '河北省', platePrefix: '冀R' },
+  { id: 'handan', name: '邯郸', aliases: ['邯郸市', 'Handan'], province: '河北省', platePrefix: '冀D' },
+  { id: 'zhengzhou', name: '郑州', aliases: ['郑州市', 'Zhengzhou'], province: '河南省', platePrefix: '豫A' },
+];
+
+/**
+ * 区县级行政区名称的后缀，地址信息中的locality为区县时不作为城市
+ */
+const DISTRICT_SUFFIX_PATTERN = /(区|县|旗)$/;
+
+/**
+ * 规范化城市名称：去除空白和"市"、"地区"等后缀，英文名转为小写
+ * @param name 城市名称
+ * @returns 规范化后的名称，如"北京市" -> "北京"、"Beijing" -> "beijing"
+ */
+export function normalizeCityName(name: string): string {
+  const trimmed = name.replace(/\s+/g, '');
+  const stripped = trimmed.length > 2 ? trimmed.replace(/(市|地区)$/, '') : trimmed;
+  return stripped.toLowerCase();
+}
+
+/**
+ * 按ID、名称或别名查找已注册的城市
+ * @param name 城市ID、名称或别名（不区分"北京"和"北京市"）
+ * @returns 城市信息，未注册时返回null
+ */
+export function findCity(name: string): CityInfo | null {
+  const normalized = normalizeCityName(name);
+  if (!normalized) {
+    return null;
+  }
+  return CITY_REGISTRY.find(city =>
+    city.id === normalized
+    || normalizeCityName(city.name) === normalized
+    || city.aliases.some(alias => normalizeCityName(alias) === normalized)
+  ) || null;
+}
+
+/**
+ * 获取城市ID
+ * @param name 城市ID、名称或别名
+ * @returns 已注册城市的ID；未注册的城市使用规范化后的名称作为ID
+ */
+export function resolveCityId(name: string): string {
+  const city = findCity(name);
+  return city ? city.id : normalizeCityName(name);
+}
+
+/**
+ * 获取已注册城市的信息
+ * @param id 城市ID
+ * @returns 城市信息，未注册时返回null
+ */
+export function getCityInfo(id: string): CityInfo | null {
+  return CITY_REGISTRY.find(city => city.id === id) || null;
+}
+
+/**
+ * 获取城市的显示名称，用于界面显示和生成搜索词
+ * @param id 城市ID
+ * @returns 显示名称，未注册的城市返回ID本身（即规范化后的名称）
+ */
+export function getCityName(id: string): string {
+  const city = getCityInfo(id);
+  return city ? city.name : id;
+}
+
+/**
+ * 从地址信息中识别城市
+ * 依次尝试locality、subAdministrativeArea、administrativeArea：直辖市的locality可能为空或为区名，
+ * 此时由administrativeArea（如"北京市"）确定城市；都未注册时使用第一个不是区县的名称
+ * @param placemark 反向地理编码得到的地址信息
+ * @returns 城市ID，无法识别时返回null
+ */
+export function resolveCityFromPlacemark(placemark: CityPlacemark): string | null {
+  const candidates = [placemark.locality, placemark.subAdministrativeArea, placemark.administrativeArea]
+    .filter((name): name is string => !!name && !!name.trim());
+
+  for (const name of candidates) {
+    const city = findCity(name);
+    if (city) {
+      return city.id;
+    }
+  }
+
+  const cityName = candidates.find(name => !DISTRICT_SUFFIX_PATTERN.test(name.trim()));
+  return cityName ? normalizeCityName(cityName) : null;
+}
+
+/**
+ * 搜索已注册的城市，按名称、别名或拼音（城市ID）匹配
+ * @param query 搜索关键字，为空时返回全部城市
+ * @returns 匹配的城市
+ */
+export function searchCities(query: string): CityInfo[] {
+  const keyword = query.trim().toLowerCase();
+  if (!keyword) {
+    return CITY_REGISTRY;
+  }
+  return CITY_REGISTRY.filter(city =>
+    city.name.includes(keyword)
+    || city.id.startsWith(keyword)
+    || city.aliases.some(alias => alias.toLowerCase().includes(keyword))
+  );
+}
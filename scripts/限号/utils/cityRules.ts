@@ -0,0 +1,76 @@
+// 城市限行规则数据模块
+// 仅包含纯数据，不依赖Scripting App的全局API，可在Node环境中使用
+
+import { TimeWindow } from './restriction'
+
+/**
+ * 一周的日期数组，用作数据解析和缓存的键；显示用的星期名称见i18n模块的getWeekdayName
+ */
+export const WEEK_DAYS = ['周一', '周二', '周三', '周四', '周五', '周六', '周日'];
+
+/**
+ * 城市特定的周末限行规则配置（键为城市ID）
+ * 数据来源：基于网络搜索结果整理，实际政策可能有变化，请以官方发布为准
+ */
+export const CITY_WEEKEND_RULES: Record<string, boolean> = {
+  'beijing': true,    // 北京正常情况下周末不限行
+  'shanghai': true,    // 上海周末不限行
+  'guangzhou': true,    // 广州周末不限行
+  'shenzhen': true,    // 深圳正常情况下周末不限行
+  'hangzhou': true,    // 杭州正常情况下周末不限行
+  'xian': true,    // 西安正常情况下周末不限行
+  // 注意：某些城市在特定时期可能会临时调整政策，实施周末限行
+  // 例如成都在特定活动期间（如2025年8月3日至17日）曾实施周末限行
+  // 可以根据实际情况添加更多城市的规则
+};
+
+/**
+ * 城市特定的节假日限行规则配置（键为城市ID）
+ * holidayNoLimit: 法定节假日是否不限行；workdayLimit: 调休上班的周末是否限行
+ * 未配置的城市默认法定节假日不限行、调休上班的周末不限行
+ * 数据来源：基于网络搜索结果整理，实际政策可能有变化，请以官方发布为准
+ */
+export const CITY_HOLIDAY_RULES: Record<string, { holidayNoLimit: boolean; workdayLimit: boolean }> = {
+  'beijing': { holidayNoLimit: true, workdayLimit: true },     // 北京法定节假日不限行，调休上班的周末限行
+};
+
+/**
+ * 城市尾号轮换规则
+ * 以某个轮换周期开始的周一为基准，周一到周五依次对应轮换顺序中的尾号组合，
+ * 每经过periodWeeks周，周一对应的尾号组合在轮换顺序中后移shiftPerPeriod位（负数表示前移）
+ */
+export interface CityRotationRule {
+  anchorDate: string;         // 基准周期开始日期（周一），YYYY-MM-DD格式
+  sequence: number[][];       // 尾号组合的轮换顺序
+  anchorIndex: number;        // 基准周期中周一对应的尾号组合在sequence中的位置
+  periodWeeks: number;        // 轮换周期（周），为0表示不轮换
+  shiftPerPeriod: number;     // 每个周期周一对应的尾号组合后移的位数，负数表示前移
+  timeWindows: TimeWindow[];  // 限行时间段
+}
+
+/**
+ * 城市尾号轮换规则表（键为城市ID），用于离线计算任意日期的限行尾号
+ * 数据来源：各地交管部门公告整理，实际政策可能有变化，请以官方发布为准
+ */
+export const CITY_ROTATION_RULES: Record<string, CityRotationRule> = {
+  // 北京：工作日7:00-20:00限行，每13周轮换一次，每次轮换周一的尾号组合前移一位
+  // 2024年12月30日至2025年3月30日为周一3和8、周二4和9、周三5和0、周四1和6、周五2和7，
+  // 2025年3月31日起周一为2和7，2025年6月30日起周一为1和6
+  'beijing': {
+    anchorDate: '2024-12-30',
+    sequence: [[1, 6], [2, 7], [3, 8], [4, 9], [5, 0]],
+    anchorIndex: 2,
+    periodWeeks: 13,
+    shiftPerPeriod: -1,
+    timeWindows: [{ start: '07:00', end: '20:00' }]
+  },
+  // 成都：工作日7:30-20:00限行，周一1和6、周二2和7、周三3和8、周四4和9、周五5和0，不轮换
+  'chengdu': {
+    anchorDate: '2024-12-30',
+    sequence: [[1, 6], [2, 7], [3, 8], [4, 9], [5, 0]],
+    anchorIndex: 0,
+    periodWeeks: 0,
+    shiftPerPeriod: 0,
+    timeWindows: [{ start: '07:30', end: '20:00' }]
+  },
+};
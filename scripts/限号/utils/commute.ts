@@ -0,0 +1,117 @@
+// 跨城通勤模块
+// 用户可选择最多三个通勤城市，每个城市独立获取和缓存限号信息（缓存键按城市ID区分），
+// 一个城市获取失败时只影响该城市的显示
+
+import { CacheFreshness, getCacheFreshness, getCachedLimitData } from './cache'
+import { addDays, startOfDay } from './calendar'
+import { resolveCityId } from './cityRegistry'
+import { applyHolidayCalendar, getHolidayInfo, HolidayInfo } from './holiday'
+import { createErrorRule, RestrictionRule } from './restriction'
+import { getDayLimitRule, getLimitNumbers, getPlateRestriction, PlateRestriction } from './service'
+import { getPrimaryVehicle } from './vehicle'
+
+/**
+ * 通勤城市缓存键
+ */
+export const COMMUTE_CITIES_KEY = 'commuteCities';
+
+/**
+ * 最多可选择的通勤城市数量
+ */
+export const MAX_COMMUTE_CITIES = 3;
+
+/**
+ * 通勤城市某一天的限行信息
+ */
+export interface CommuteDayLimit {
+  date: Date;
+  limitInfo: RestrictionRule;         // 已按节假日调整
+  vehicle: PlateRestriction | null;   // 主车辆的限行判定，车库为空时为null
+  holiday: HolidayInfo | null;
+}
+
+/**
+ * 单个通勤城市今天和明天的限行信息
+ */
+export interface CommuteCityLimit {
+  city: string;
+  today: CommuteDayLimit;
+  tomorrow: CommuteDayLimit;
+  freshness: CacheFreshness;
+}
+
+/**
+ * 获取通勤城市
+ * @returns 城市ID列表，按用户选择的顺序排列
+ */
+export function getCommuteCities(): string[] {
+  return Storage.get<string[]>(COMMUTE_CITIES_KEY) || [];
+}
+
+/**
+ * 保存通勤城市，去除重复城市并最多保留MAX_COMMUTE_CITIES个
+ * @param cities 城市ID、名称或别名
+ * @returns 保存后的城市ID列表
+ */
+export function saveCommuteCities(cities: string[]): string[] {
+  const ids = cities
+    .map(city => resolveCityId(city))
+    .filter((id, index, list) => !!id && list.indexOf(id) === index)
+    .slice(0, MAX_COMMUTE_CITIES);
+  Storage.set<string[]>(COMMUTE_CITIES_KEY, ids);
+  return ids;
+}
+
+/**
+ * 计算某一天的限行信息和主车辆判定
+ */
+function createDayLimit(date: Date, limitInfo: RestrictionRule): CommuteDayLimit {
+  const primaryVehicle = getPrimaryVehicle();
+  return {
+    date,
+    limitInfo,
+    vehicle: primaryVehicle ? getPlateRestriction(limitInfo, primaryVehicle.plate) : null,
+    holiday: getHolidayInfo(date)
+  };
+}
+
+/**
+ * 获取单个通勤城市今天和明天的限行信息
+ * 今天的信息由getLimitNumbers获取（必要时刷新该城市的缓存），明天使用缓存或离线规则；
+ * 获取失败时返回该城市的错误规则，不影响其他城市
+ * @param city 城市ID
+ * @param now 当前时间
+ */
+export async function getCommuteCityLimit(city: string, now: Date = new Date()): Promise<CommuteCityLimit> {
+  const today = startOfDay(now);
+  const tomorrow = addDays(today, 1);
+
+  try {
+    const limitData = await getLimitNumbers({ city });
+    return {
+      city,
+      today: createDayLimit(today, limitData.limitInfo),
+      tomorrow: createDayLimit(tomorrow, getDayLimitRule(city, tomorrow)),
+      freshness: limitData.freshness
+    };
+  } catch (e) {
+    console.error(`获取通勤城市${city}限号信息失败:`, e);
+    const errorRule = createErrorRule('network', e instanceof Error ? e.message : '未知错误');
+    return {
+      city,
+      today: createDayLimit(today, applyHolidayCalendar(city, today, errorRule)),
+      tomorrow: createDayLimit(tomorrow, applyHolidayCalendar(city, tomorrow, errorRule)),
+      freshness: getCacheFreshness(getCachedLimitData(city), now)
+    };
+  }
+}
+
+/**
+ * 获取所有通勤城市今天和明天的限行信息，各城市并行获取
+ * @param cities 城市ID列表，默认使用用户选择的通勤城市
+ * @returns 与cities顺序一致的限行信息
+ */
+export async function getCommuteLimitNumbers(cities: string[] = getCommuteCities()): Promise<CommuteCityLimit[]> {
+  const now = new Date();
+  return Promise.all(cities.slice(0, MAX_COMMUTE_CITIES).map(city => getCommuteCityLimit(city, now)));
+}
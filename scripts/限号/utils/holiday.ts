@@ -0,0 +1,177 @@
+// 法定节假日与调休日历模块
+
+import { formatDateKey } from './calendar'
+import { getCityName } from './cityRegistry'
+import { CITY_HOLIDAY_RULES } from './cityRules'
+import { createDigitsRule, createErrorRule, createNoRestrictionRule, RestrictionRule } from './restriction'
+import { getRotationDigits } from './rotation'
+
+/**
+ * 日期类型
+ * holiday: 法定节假日（放假）；workday: 调休上班日
+ */
+export type HolidayType = 'holiday' | 'workday';
+
+/**
+ * 节假日信息
+ */
+export interface HolidayInfo {
+  type: HolidayType;
+  name: string;         // 节日名称，如"国庆节"
+}
+
+/**
+ * 用户自定义节假日缓存键
+ */
+export const HOLIDAY_OVERRIDES_KEY = 'holidayOverrides';
+
+/**
+ * 某一年的节假日安排
+ */
+interface YearHolidays {
+  holidays: Array<{ name: string; dates: string[] }>;   // 放假日期
+  workdays: Array<{ name: string; dates: string[] }>;   // 调休上班日期
+}
+
+/**
+ * 内置的法定节假日安排（键为年份）
+ * 数据来源：国务院办公厅发布的节假日安排通知，请以官方发布为准
+ */
+const BUNDLED_HOLIDAYS: Record<string, YearHolidays> = {
+  '2025': {
+    holidays: [
+      { name: '元旦', dates: ['2025-01-01'] },
+      { name: '春节', dates: ['2025-01-28', '2025-01-29', '2025-01-30', '2025-01-31', '2025-02-01', '2025-02-02', '2025-02-03', '2025-02-04'] },
+      { name: '清明节', dates: ['2025-04-04', '2025-04-05', '2025-04-06'] },
+      { name: '劳动节', dates: ['2025-05-01', '2025-05-02', '2025-05-03', '2025-05-04', '2025-05-05'] },
+      { name: '端午节', dates: ['2025-05-31', '2025-06-01', '2025-06-02'] },
+      { name: '国庆节', dates: ['2025-10-01', '2025-10-02', '2025-10-03', '2025-10-04', '2025-10-05', '2025-10-06', '2025-10-07', '2025-10-08'] },
+    ],
+    workdays: [
+      { name: '春节', dates: ['2025-01-26', '2025-02-08'] },
+      { name: '劳动节', dates: ['2025-04-27'] },
+      { name: '国庆节', dates: ['2025-09-28', '2025-10-11'] },
+    ]
+  },
+  '2026': {
+    holidays: [
+      { name: '元旦', dates: ['2026-01-01', '2026-01-02', '2026-01-03'] },
+      { name: '春节', dates: ['2026-02-15', '2026-02-16', '2026-02-17', '2026-02-18', '2026-02-19', '2026-02-20', '2026-02-21', '2026-02-22', '2026-02-23'] },
+      { name: '清明节', dates: ['2026-04-04', '2026-04-05', '2026-04-06'] },
+      { name: '劳动节', dates: ['2026-05-01', '2026-05-02', '2026-05-03', '2026-05-04', '2026-05-05'] },
+      { name: '端午节', dates: ['2026-06-19', '2026-06-20', '2026-06-21'] },
+      { name: '中秋节', dates: ['2026-09-25', '2026-09-26', '2026-09-27'] },
+      { name: '国庆节', dates: ['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04', '2026-10-05', '2026-10-06', '2026-10-07'] },
+    ],
+    workdays: [
+      { name: '元旦', dates: ['2026-01-04'] },
+      { name: '春节', dates: ['2026-02-14', '2026-02-28'] },
+      { name: '劳动节', dates: ['2026-05-09'] },
+      { name: '国庆节', dates: ['2026-09-20', '2026-10-10'] },
+    ]
+  },
+};
+
+/**
+ * 从内置数据中查找节假日信息
+ */
+function findBundledHoliday(dateKey: string): HolidayInfo | null {
+  const yearHolidays = BUNDLED_HOLIDAYS[dateKey.substring(0, 4)];
+  if (!yearHolidays) {
+    return null;
+  }
+
+  const holiday = yearHolidays.holidays.find(item => item.dates.includes(dateKey));
+  if (holiday) {
+    return { type: 'holiday', name: holiday.name };
+  }
+
+  const workday = yearHolidays.workdays.find(item => item.dates.includes(dateKey));
+  if (workday) {
+    return { type: 'workday', name: workday.name };
+  }
+
+  return null;
+}
+
+/**
+ * 获取用户自定义的节假日（键为YYYY-MM-DD，值为null表示取消内置的节假日安排）
+ */
+export function getHolidayOverrides(): Record<string, HolidayInfo | null> {
+  return Storage.get<Record<string, HolidayInfo | null>>(HOLIDAY_OVERRIDES_KEY) || {};
+}
+
+/**
+ * 添加或修改自定义节假日，用于补充内置数据中没有的年份或临时调整
+ * @param dateKey 日期，YYYY-MM-DD格式
+ * @param holiday 节假日信息，传入null表示该日期按普通日期处理
+ */
+export function setHolidayOverride(dateKey: string, holiday: HolidayInfo | null): void {
+  const overrides = getHolidayOverrides();
+  overrides[dateKey] = holiday;
+  Storage.set<Record<string, HolidayInfo | null>>(HOLIDAY_OVERRIDES_KEY, overrides);
+  console.log(`已设置自定义节假日 ${dateKey}: ${holiday ? `${holiday.name}（${holiday.type === 'holiday' ? '放假' : '调休上班'}）` : '普通日期'}`);
+}
+
+/**
+ * 移除自定义节假日，恢复使用内置数据
+ * @param dateKey 日期，YYYY-MM-DD格式
+ */
+export function removeHolidayOverride(dateKey: string): void {
+  const overrides = getHolidayOverrides();
+  delete overrides[dateKey];
+  Storage.set<Record<string, HolidayInfo | null>>(HOLIDAY_OVERRIDES_KEY, overrides);
+}
+
+/**
+ * 获取指定日期的节假日信息，自定义数据优先于内置数据
+ * @param date 日期
+ * @returns 节假日信息，普通日期返回null
+ */
+export function getHolidayInfo(date: Date): HolidayInfo | null {
+  const dateKey = formatDateKey(date);
+  const overrides = getHolidayOverrides();
+  if (dateKey in overrides) {
+    return overrides[dateKey];
+  }
+  return findBundledHoliday(dateKey);
+}
+
+/**
+ * 根据节假日安排调整限行规则
+ * 法定节假日按城市规则不限行；调休上班的周末按城市规则限行，尾号按离线轮换规则计算，
+ * 城市没有离线规则时尾号需以官方发布为准
+ * @param city 城市ID
+ * @param date 日期
+ * @param rule 按普通日期得到的限行规则
+ * @returns 调整后的限行规则
+ */
+export function applyHolidayCalendar(city: string, date: Date, rule: RestrictionRule): RestrictionRule {
+  const holiday = getHolidayInfo(date);
+  if (!holiday) {
+    return rule;
+  }
+
+  // 如果城市在节假日规则表中，则使用其配置；否则默认节假日不限行、调休上班日不限行
+  const cityRule = CITY_HOLIDAY_RULES[city] || { holidayNoLimit: true, workdayLimit: false };
+
+  if (holiday.type === 'holiday' && cityRule.holidayNoLimit && rule.mode !== 'none') {
+    console.log(`✓ ${formatDateKey(date)}为${holiday.name}假期，${getCityName(city)}不限行`);
+    return createNoRestrictionRule({ source: 'holidayCalendar', confidence: 'high' });
+  }
+
+  if (holiday.type === 'workday' && cityRule.workdayLimit && rule.mode === 'none') {
+    // 调休上班的周末在数据源中通常被当作周末不限行，这里按轮换规则计算当天的尾号
+    console.log(`✓ ${formatDateKey(date)}为${holiday.name}调休上班日，${getCityName(city)}限行`);
+    const rotation = getRotationDigits(city, date);
+    if (!rotation) {
+      return createErrorRule('noData', `${holiday.name}调休上班日限行，尾号请以官方发布为准`);
+    }
+    return {
+      ...createDigitsRule(rotation.digits, { timeWindows: rotation.timeWindows, source: 'holidayCalendar', confidence: 'medium' }),
+      makeupWorkday: true
+    };
+  }
+
+  return rule;
+}
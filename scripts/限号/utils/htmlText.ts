@@ -0,0 +1,231 @@
+// HTML文本规范化模块
+// 将搜索结果页面HTML转换为便于模式匹配的纯文本：移除script/style块和注释、去除标签、解码HTML实体、
+// 全角数字和标点转为半角、合并空白（块级标签边界保留为换行），同时记录每个字符在原始HTML中的位置，用于输出诊断信息
+// 纯文本处理，不依赖Scripting App的全局API，可在Node环境中运行
+
+/**
+ * 规范化后的文本
+ */
+export interface NormalizedText {
+  text: string;
+  offsets: number[];    // text中每个字符在原始HTML中的位置，最后多一项为原始HTML的长度
+}
+
+/**
+ * 整块移除（连同内容）的标签
+ */
+const SKIPPED_CONTENT_TAGS = ['script', 'style'];
+
+/**
+ * 块级标签，去除时替换为换行，既避免前后文字粘连，又让按行截取的逻辑在块的边界处停止；
+ * 其余标签（如span、em）直接去除，使"限行尾号<em>4</em>和<em>9</em>"规范化为"限行尾号4和9"
+ */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'br', 'caption', 'dd', 'div', 'dl', 'dt',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header', 'hr', 'html', 'li',
+  'main', 'nav', 'ol', 'option', 'p', 'section', 'select', 'table', 'tbody', 'td', 'tfoot',
+  'th', 'thead', 'title', 'tr', 'ul'
+]);
+
+/**
+ * 常用的命名HTML实体
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  ensp: ' ',
+  emsp: ' ',
+  thinsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  middot: '·',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  times: '×',
+  yen: '¥',
+  copy: '©'
+};
+
+/**
+ * HTML实体，如"&nbsp;"、"&#26102;"、"&#x65F6;"
+ */
+const ENTITY_PATTERN = /&(#\d+|#[xX][0-9a-fA-F]+|[a-zA-Z][a-zA-Z0-9]*);/y;
+
+/**
+ * 标签名
+ */
+const TAG_NAME_PATTERN = /<\/?([a-zA-Z][a-zA-Z0-9]*)/y;
+
+/**
+ * 将全角字符转为半角：全角数字、字母和标点（U+FF01-U+FF5E）转为对应的ASCII字符，全角空格转为空格；
+ * 中文标点（如"、"、"。"）不在全角字符范围内，保持不变
+ */
+export function foldFullWidth(char: string): string {
+  const code = char.charCodeAt(0);
+  if (code >= 0xff01 && code <= 0xff5e) {
+    return String.fromCharCode(code - 0xfee0);
+  }
+  if (code === 0x3000) {
+    return ' ';
+  }
+  return char;
+}
+
+/**
+ * 解码位于index处的HTML实体
+ * @returns 解码后的字符和实体长度，不是可识别的实体时返回null
+ */
+function decodeEntityAt(html: string, index: number): { value: string; length: number } | null {
+  ENTITY_PATTERN.lastIndex = index;
+  const match = ENTITY_PATTERN.exec(html);
+  if (!match) {
+    return null;
+  }
+
+  const name = match[1];
+  if (name.startsWith('#')) {
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    if (!Number.isFinite(code) || code <= 0 || code > 0x10ffff) {
+      return null;
+    }
+    return { value: String.fromCodePoint(code), length: match[0].length };
+  }
+
+  const value = NAMED_ENTITIES[name] ?? NAMED_ENTITIES[name.toLowerCase()];
+  return value !== undefined ? { value, length: match[0].length } : null;
+}
+
+/**
+ * 查找从index处开始的标签的结束位置（">"之后），忽略引号中的">"
+ * @returns 结束位置，标签未闭合时返回-1
+ */
+function findTagEnd(html: string, index: number): number {
+  let quote: string | null = null;
+  for (let i = index + 1; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 将HTML规范化为纯文本
+ * @param html 原始HTML
+ * @returns 规范化后的文本及每个字符在原始HTML中的位置
+ */
+export function normalizeHtml(html: string): NormalizedText {
+  const chars: string[] = [];
+  const offsets: number[] = [];
+  let pendingSpace: number | null = null;   // 尚未输出的连续空白的起始位置
+  let pendingBreak = false;                 // 尚未输出的连续空白中是否包含块级标签边界
+
+  // 输出一个字符：连续空白合并为一个空格（包含块级标签边界时为一个换行），开头和结尾的空白去除
+  const emit = (char: string, offset: number) => {
+    if (/\s/.test(char)) {
+      if (pendingSpace === null) {
+        pendingSpace = offset;
+      }
+      return;
+    }
+    if (pendingSpace !== null && chars.length > 0) {
+      chars.push(pendingBreak ? '\n' : ' ');
+      offsets.push(pendingSpace);
+    }
+    pendingSpace = null;
+    pendingBreak = false;
+    chars.push(char);
+    offsets.push(offset);
+  };
+
+  // 输出块级标签边界
+  const emitBreak = (offset: number) => {
+    emit(' ', offset);
+    pendingBreak = true;
+  };
+
+  let index = 0;
+  while (index < html.length) {
+    const char = html[index];
+
+    if (char === '<') {
+      // 注释
+      if (html.startsWith('<!--', index)) {
+        const commentEnd = html.indexOf('-->', index + 4);
+        index = commentEnd === -1 ? html.length : commentEnd + 3;
+        continue;
+      }
+
+      const next = html[index + 1] || '';
+      if (/[a-zA-Z\/!?]/.test(next)) {
+        const tagEnd = findTagEnd(html, index);
+        if (tagEnd !== -1) {
+          TAG_NAME_PATTERN.lastIndex = index;
+          const tagMatch = TAG_NAME_PATTERN.exec(html);
+          const tagName = tagMatch ? tagMatch[1].toLowerCase() : '';
+          const isClosing = next === '/';
+
+          // script/style连同内容一起移除
+          if (!isClosing && SKIPPED_CONTENT_TAGS.includes(tagName)) {
+            const closePattern = new RegExp(`</${tagName}`, 'ig');
+            closePattern.lastIndex = tagEnd;
+            const closeMatch = closePattern.exec(html);
+            const closeEnd = closeMatch ? findTagEnd(html, closeMatch.index) : -1;
+            emit(' ', index);
+            index = closeEnd === -1 ? html.length : closeEnd;
+            continue;
+          }
+
+          if (BLOCK_TAGS.has(tagName)) {
+            emitBreak(index);
+          }
+          index = tagEnd;
+          continue;
+        }
+      }
+    }
+
+    if (char === '&') {
+      const entity = decodeEntityAt(html, index);
+      if (entity) {
+        for (let i = 0; i < entity.value.length; i++) {
+          emit(foldFullWidth(entity.value[i]), index);
+        }
+        index += entity.length;
+        continue;
+      }
+    }
+
+    emit(foldFullWidth(char), index);
+    index++;
+  }
+
+  offsets.push(html.length);
+  return { text: chars.join(''), offsets };
+}
+
+/**
+ * 获取规范化文本中的位置对应的原始HTML位置
+ * @param normalized 规范化后的文本
+ * @param index 规范化文本中的位置
+ */
+export function getSourceOffset(normalized: NormalizedText, index: number): number {
+  const clamped = Math.max(0, Math.min(index, normalized.offsets.length - 1));
+  return normalized.offsets[clamped];
+}
@@ -0,0 +1,1045 @@
+// 多语言模块
+// 小组件文字、通知、错误视图和App主页面的消息目录（简体中文、繁体中文、英文），
+// 按App中的语言设置选择，默认跟随设备语言；日志和数据解析仍使用简体中文
+
+import { CityMode } from './city'
+import { getCityInfo, getCityName } from './cityRegistry'
+import { HolidayInfo } from './holiday'
+import { formatTimeWindow, RestrictionRule, RestrictionSource } from './restriction'
+import { ThemeId } from './theme'
+
+/**
+ * 语言设置缓存键
+ */
+export const LANGUAGE_SETTING_KEY = 'language';
+
+/**
+ * 支持的语言
+ */
+export type Locale = 'zh-Hans' | 'zh-Hant' | 'en';
+
+/**
+ * 语言设置：跟随设备或指定语言
+ */
+export type LanguageSetting = 'system' | Locale;
+
+/**
+ * 消息目录
+ */
+export interface Messages {
+  languageName: string;                 // 语言名称（以该语言书写）
+  appName: string;
+  weekdays: string[];                   // 周一到周日
+  weekdaysShort: string[];              // 月历表头，周一到周日
+  listSeparator: string;                // 列表分隔符，如"、"
+  digitsSeparator: string;              // 两个限行尾号之间的连接词，如"和"
+
+  // 限行信息
+  noLimit: string;
+  noLimitShort: string;
+  oddPlates: string;
+  evenPlates: string;
+  oddEvenPlates: string;
+  noData: string;
+  fetchFailed: string;
+  limitNumbers: (limitText: string) => string;          // 如"限号 4,9"
+  tailDigit: (digit: number) => string;                 // 如"尾号6"
+  restrictedDigits: (limitText: string) => string;      // 如"限行4,9"
+
+  // 本车判定
+  restrictedToday: string;
+  allowedToday: string;
+  restrictedShort: string;
+  allowedShort: string;
+  restrictedMark: string;
+  allowedMark: string;
+
+  // 限行时间段状态
+  hours: (count: number) => string;
+  minutes: (count: number) => string;
+  windowActive: (remaining: string) => string;
+  windowUpcoming: (start: string) => string;
+  windowEnded: string;
+
+  // 节假日
+  holidayMark: string;                  // 月历中的节假日标记
+  workdayMark: string;                  // 月历中的调休上班日标记
+  workdayLabel: string;                 // 一周视图中的调休上班日
+  holidayNames: Record<string, string>; // 节日名称翻译，键为简体中文名称
+
+  // 小组件
+  updatedAt: (time: string) => string;
+  staleData: (date: string, time: string) => string;
+  retryLater: string;
+  weekTitle: (range: string) => string;
+  weekRange: (start: { year: number; month: number; day: number }, end: { month: number; day: number }) => string;
+  monthTitle: (year: number, month: number) => string;
+  addVehicleHint: string;
+  moreVehicles: (count: number) => string;
+  commuteTitle: string;
+  commuteEmptyHint: string;
+  today: string;
+  tomorrow: string;
+  restrictedLegend: string;
+  nextRotation: (month: number, day: number) => string;
+  noRotation: string;
+  noRotationInfo: string;
+
+  // 错误视图
+  errorShort: string;
+  errorInline: string;
+  errorTitle: string;
+  errorOccurred: string;
+  unknownError: string;
+  noTodayData: string;
+
+  // 通知
+  notificationTitle: string;
+  reminderTitle: string;
+  specifyCityAction: string;
+  locationUnavailableSubtitle: string;
+  locationUnavailableBody: string;
+  locationErrorSubtitle: string;
+  locationErrorBody: string;
+  fallbackCityNotice: (reason: string, city: string) => string;
+  reminderBody: (day: string, weekday: string, plates: string, windowText: string) => string;
+  cityChangedSubtitle: (city: string) => string;
+  cityChangedBody: (city: string, limitText: string) => string;
+
+  // App主页面
+  sourceNames: Record<RestrictionSource, string>;       // 数据来源
+  providerNames: Record<string, string>;                // 数据源名称，键为数据源ID
+  cityModeNames: Record<CityMode, string>;              // 城市选择方式
+  themeNames: Record<ThemeId, string>;                  // 小组件主题
+  verdictUnknown: string;                               // 无法判定车牌是否限行
+  ruleWithHoliday: (ruleText: string, holidayName: string, isWorkday: boolean) => string;   // 如"不限行（国庆节）"
+  fixedCityLabel: (city: string) => string;
+  fallbackCityLabel: (city: string) => string;
+  labelWithDetail: (label: string, detail: string) => string;   // 如"家用车（京A12345）"、"北京（京）"
+  vehicleCount: (count: number) => string;
+  todaySuffix: string;                                  // 一周列表中标记今天，如"（今天）"
+  loading: string;
+  enabled: string;
+  disabled: string;
+  notSet: string;
+  searchTitle: string;
+  citySearchPrompt: string;
+  enterCityAction: string;
+  enterCityTitle: string;
+  enterCityMessage: string;
+  cityPlaceholder: string;
+  positiveNumberRequired: string;
+
+  // 概览
+  weekHeader: string;
+  dataHeader: string;
+  cityTitle: string;
+  fixedCityMark: string;
+  sourceTitle: string;
+  fetchedAtTitle: string;
+  notFetched: string;
+  statusTitle: string;
+  staleStatus: (failureCount: number) => string;
+  latestStatus: string;
+  nextRetryTitle: string;
+  lastRefreshTitle: string;
+  refreshSummary: (provider: string, requestCount: number, latencyMs: number) => string;
+  allProvidersFailed: string;
+  settingsHeader: string;
+  maintenanceHeader: string;
+  forceRefresh: string;
+  clearCache: string;
+  clearCacheMessage: (city: string) => string;
+  redetectLocation: string;
+  fixedCityAlert: string;
+
+  // 城市设置
+  cityModeHeader: string;
+  cityModeFooter: string;
+  fallbackCityHeader: string;
+  autoSelectCityFooter: string;
+  detectionHeader: string;
+  detectionFooter: string;
+  distanceTitle: string;
+  distanceMessage: string;
+  distanceValue: (km: number) => string;
+  maxAgeTitle: string;
+  maxAgeMessage: string;
+  maxAgeValue: (minutes: number) => string;
+  notifyCityChange: string;
+
+  // 车库
+  garageTitle: string;
+  garageFooter: string;
+  addVehicle: string;
+  addVehicleMessage: string;
+  platePlaceholder: (platePrefix: string) => string;
+  nicknameTitle: string;
+  nicknameMessage: string;
+  nicknamePlaceholder: string;
+  invalidPlate: string;
+  removeVehicleTitle: string;
+  removeVehicleMessage: (label: string) => string;
+
+  // 限行提醒设置
+  remindersTitle: string;
+  remindersFooter: string;
+  enableReminders: string;
+  reminderTimesHeader: string;
+  reminderTimesFooter: string;
+  reminderTimeLabel: (time: string, isToday: boolean) => string;
+  addReminderTime: string;
+  addReminderTitle: string;
+  addReminderMessage: string;
+  reminderTimePlaceholder: string;
+  invalidReminderTime: string;
+  reminderSheetTitle: (time: string) => string;
+  remindTomorrow: string;
+  remindToday: string;
+  upcomingHeader: string;
+  noUpcomingReminders: string;
+
+  // 自定义节假日设置
+  holidaysTitle: string;
+  holidaysFooter: string;
+  holidayOverrideCount: (count: number) => string;
+  noHolidayOverrides: string;
+  holidayOverrideLabel: (name: string | null, isWorkday: boolean) => string;  // name为null表示普通日期
+  addHolidayOverride: string;
+  holidayDateMessage: string;
+  holidayDatePlaceholder: string;
+  invalidHolidayDate: string;
+  holidayTypeHoliday: string;
+  holidayTypeWorkday: string;
+  holidayTypeNormal: string;
+  holidayNameTitle: string;
+  holidayNameMessage: string;
+  holidayNamePlaceholder: string;
+  removeHolidayOverrideTitle: string;
+  removeHolidayOverrideMessage: (dateKey: string) => string;
+
+  // 通勤城市设置
+  commuteCitiesTitle: string;
+  commuteSelectedHeader: (count: number, max: number) => string;
+  commuteFooter: string;
+  commuteLimitReached: (max: number) => string;
+  noCommuteCities: string;
+  addCityHeader: string;
+  commuteCityPlaceholder: string;
+
+  // 主题、语言和数据源设置
+  themeTitle: string;
+  themeFooter: string;
+  languageTitle: string;
+  followSystem: string;
+  languageFooter: string;
+  providersTitle: string;
+  providersFooter: string;
+  reorderHeader: string;
+  preferProvider: (provider: string) => string;
+}
+
+/**
+ * 简体中文
+ */
+const ZH_HANS: Messages = {
+  languageName: '简体中文',
+  appName: '限号助手',
+  weekdays: ['周一', '周二', '周三', '周四', '周五', '周六', '周日'],
+  weekdaysShort: ['一', '二', '三', '四', '五', '六', '日'],
+  listSeparator: '、',
+  digitsSeparator: '和',
+
+  noLimit: '不限行',
+  noLimitShort: '不限',
+  oddPlates: '单号',
+  evenPlates: '双号',
+  oddEvenPlates: '单双号',
+  noData: '暂无信息',
+  fetchFailed: '获取失败',
+  limitNumbers: limitText => `限号 ${limitText}`,
+  tailDigit: digit => `尾号${digit}`,
+  restrictedDigits: limitText => `限行${limitText}`,
+
+  restrictedToday: '今日限行',
+  allowedToday: '今日可行',
+  restrictedShort: '限行',
+  allowedShort: '可行',
+  restrictedMark: '限',
+  allowedMark: '·',
+
+  hours: count => `${count} 小时`,
+  minutes: count => `${count} 分钟`,
+  windowActive: remaining => `限行中，还剩 ${remaining}`,
+  windowUpcoming: start => `${start} 开始`,
+  windowEnded: '今日限行已结束',
+
+  holidayMark: '休',
+  workdayMark: '班',
+  workdayLabel: '调休',
+  holidayNames: {},
+
+  updatedAt: time => `更新: ${time}`,
+  staleData: (date, time) => `⚠︎ ${date} ${time}的数据`,
+  retryLater: '获取失败，稍后重试',
+  weekTitle: range => `本周尾号限行（${range}）`,
+  weekRange: (start, end) => `${start.year}年${start.month}月${start.day}日-${end.month}月${end.day}日`,
+  monthTitle: (year, month) => `${year}年${month}月`,
+  addVehicleHint: '在App中运行脚本添加车辆',
+  moreVehicles: count => `另有${count}辆车未显示`,
+  commuteTitle: '限号助手 · 通勤',
+  commuteEmptyHint: '在App中运行脚本设置通勤城市',
+  today: '今天',
+  tomorrow: '明天',
+  restrictedLegend: '■ 本车限行',
+  nextRotation: (month, day) => `${month}/${day} 起轮换`,
+  noRotation: '尾号不轮换',
+  noRotationInfo: '暂无轮换信息',
+
+  errorShort: '错误',
+  errorInline: '限号获取失败',
+  errorTitle: '获取数据失败',
+  errorOccurred: '发生错误',
+  unknownError: '未知错误',
+  noTodayData: '没有今天的数据',
+
+  notificationTitle: '限号查询',
+  reminderTitle: '限号提醒',
+  specifyCityAction: '指定城市',
+  locationUnavailableSubtitle: '位置服务不可用',
+  locationUnavailableBody: '无法获取您的城市信息',
+  locationErrorSubtitle: '位置服务错误',
+  locationErrorBody: '获取城市信息时发生错误',
+  fallbackCityNotice: (reason, city) => `${reason}，当前显示${city}的限行信息。可在App中指定城市`,
+  reminderBody: (day, weekday, plates, windowText) => `${day} (${weekday}) 您的车 ${plates} 限行${windowText ? ` ${windowText}` : ''}`,
+  cityChangedSubtitle: city => `已进入${city}`,
+  cityChangedBody: (city, limitText) => `${city}今日限行: ${limitText}`,
+
+  sourceNames: {
+    baidu: '百度搜索',
+    weekendRule: '城市周末规则',
+    offlineRule: '离线规则',
+    holidayCalendar: '节假日日历',
+    none: '无'
+  },
+  providerNames: {
+    baidu: '百度搜索',
+    offline: '离线规则'
+  },
+  cityModeNames: {
+    auto: '自动定位',
+    fixed: '固定城市',
+    autoWithFallback: '自动定位，失败时使用指定城市'
+  },
+  themeNames: {
+    system: '跟随系统',
+    kindle: 'Kindle墨水屏',
+    highContrast: '高对比度'
+  },
+  verdictUnknown: '无法判断',
+  ruleWithHoliday: (ruleText, holidayName, isWorkday) => `${ruleText}（${holidayName}${isWorkday ? '调休' : ''}）`,
+  fixedCityLabel: city => `固定城市：${city}`,
+  fallbackCityLabel: city => `自动定位（备用：${city}）`,
+  labelWithDetail: (label, detail) => `${label}（${detail}）`,
+  vehicleCount: count => `${count}辆车`,
+  todaySuffix: '（今天）',
+  loading: '正在获取限行信息…',
+  enabled: '已开启',
+  disabled: '已关闭',
+  notSet: '未设置',
+  searchTitle: '搜索',
+  citySearchPrompt: '输入城市名称或拼音',
+  enterCityAction: '手动输入城市',
+  enterCityTitle: '输入城市',
+  enterCityMessage: '列表中没有的城市可手动输入城市名称',
+  cityPlaceholder: '如：北京',
+  positiveNumberRequired: '请输入大于0的数字',
+
+  weekHeader: '本周',
+  dataHeader: '数据',
+  cityTitle: '城市',
+  fixedCityMark: '（固定）',
+  sourceTitle: '数据来源',
+  fetchedAtTitle: '获取时间',
+  notFetched: '尚未获取',
+  statusTitle: '状态',
+  staleStatus: failureCount => `旧数据（连续失败${failureCount}次）`,
+  latestStatus: '最新',
+  nextRetryTitle: '下次重试',
+  lastRefreshTitle: '本次刷新',
+  refreshSummary: (provider, requestCount, latencyMs) => `${provider}，请求${requestCount}次，${latencyMs}ms`,
+  allProvidersFailed: '全部失败',
+  settingsHeader: '设置',
+  maintenanceHeader: '维护',
+  forceRefresh: '强制刷新',
+  clearCache: '清除缓存',
+  clearCacheMessage: city => `确定要清除${city}的限号信息缓存并重新获取吗？`,
+  redetectLocation: '重新定位',
+  fixedCityAlert: '已选择固定城市，如需使用定位请在城市设置中选择"自动定位"',
+
+  cityModeHeader: '选择方式',
+  cityModeFooter: '选择固定城市时不会使用定位服务',
+  fallbackCityHeader: '定位失败时使用的城市',
+  autoSelectCityFooter: '自动定位时选择城市将切换为固定城市',
+  detectionHeader: '位置变化检测',
+  detectionFooter: '移动距离和识别间隔都未超过设定值时沿用上次识别的城市，不再进行反向地理编码',
+  distanceTitle: '移动距离',
+  distanceMessage: '移动超过该距离（公里）时重新识别城市',
+  distanceValue: km => `移动距离: ${km} 公里`,
+  maxAgeTitle: '识别间隔',
+  maxAgeMessage: '城市信息超过该时长（分钟）时重新识别城市',
+  maxAgeValue: minutes => `识别间隔: ${minutes} 分钟`,
+  notifyCityChange: '城市变化时通知',
+
+  garageTitle: '我的车库',
+  garageFooter: '第一辆车为主车辆，小组件和提醒按车库中的车辆判断是否限行。选择车辆可将其移除',
+  addVehicle: '添加车辆',
+  addVehicleMessage: '请输入车牌号',
+  platePlaceholder: platePrefix => `如：${platePrefix}12345`,
+  nicknameTitle: '车辆昵称',
+  nicknameMessage: '用于在小组件中区分车辆，可留空',
+  nicknamePlaceholder: '如：家用车',
+  invalidPlate: '车牌号无效，请重新输入',
+  removeVehicleTitle: '移除车辆',
+  removeVehicleMessage: label => `确定要移除${label}吗？`,
+
+  remindersTitle: '限行提醒',
+  remindersFooter: '只在车库中的车辆实际限行的日期提醒，节假日不提醒',
+  enableReminders: '启用提醒',
+  reminderTimesHeader: '提醒时间',
+  reminderTimesFooter: '选择提醒时间可将其移除',
+  reminderTimeLabel: (time, isToday) => `${time} 提醒${isToday ? '当天' : '明天'}限行`,
+  addReminderTime: '添加提醒时间',
+  addReminderTitle: '添加提醒',
+  addReminderMessage: '请输入提醒时间（24小时制）',
+  reminderTimePlaceholder: '如：21:00',
+  invalidReminderTime: '时间格式无效，请输入如21:00的时间',
+  reminderSheetTitle: time => `${time}提醒`,
+  remindTomorrow: '提醒明天限行',
+  remindToday: '提醒当天限行',
+  upcomingHeader: '即将发送',
+  noUpcomingReminders: '近期没有需要提醒的限行',
+
+  holidaysTitle: '自定义节假日',
+  holidaysFooter: '自定义的日期优先于内置的节假日安排，用于补充内置数据中没有的年份或临时调整。选择日期可将其移除',
+  holidayOverrideCount: count => `${count}个日期`,
+  noHolidayOverrides: '尚未添加自定义日期',
+  holidayOverrideLabel: (name, isWorkday) => name ? `${name}（${isWorkday ? '调休上班' : '放假'}）` : '普通日期',
+  addHolidayOverride: '添加日期',
+  holidayDateMessage: '请输入日期（YYYY-MM-DD）',
+  holidayDatePlaceholder: '如：2027-01-01',
+  invalidHolidayDate: '日期格式无效，请输入如2027-01-01的日期',
+  holidayTypeHoliday: '放假',
+  holidayTypeWorkday: '调休上班',
+  holidayTypeNormal: '普通日期（取消内置的安排）',
+  holidayNameTitle: '节日名称',
+  holidayNameMessage: '在概览和小组件中显示',
+  holidayNamePlaceholder: '如：国庆节',
+  removeHolidayOverrideTitle: '移除自定义日期',
+  removeHolidayOverrideMessage: dateKey => `确定要移除${dateKey}的自定义安排吗？移除后使用内置的节假日安排`,
+
+  commuteCitiesTitle: '通勤城市',
+  commuteSelectedHeader: (count, max) => `已选择（${count}/${max}）`,
+  commuteFooter: '添加中号或大号小组件，并在小组件参数中填写"通勤"。选择城市可将其移除',
+  commuteLimitReached: max => `最多可选择${max}个通勤城市，请先移除一个城市`,
+  noCommuteCities: '尚未选择通勤城市',
+  addCityHeader: '添加城市',
+  commuteCityPlaceholder: '如：佛山',
+
+  themeTitle: '小组件主题',
+  themeFooter: '跟随系统时自动适配浅色、深色模式和锁屏着色；主题在小组件下次刷新时生效',
+  languageTitle: '语言',
+  followSystem: '跟随系统',
+  languageFooter: '跟随系统时使用设备的首选语言，不支持时使用英文；语言在小组件下次刷新时生效',
+  providersTitle: '数据源',
+  providersFooter: '按顺序尝试已启用的数据源，直到获取到当天的限行信息',
+  reorderHeader: '调整顺序',
+  preferProvider: provider => `将${provider}设为首选`
+};
+
+/**
+ * 繁体中文
+ */
+const ZH_HANT: Messages = {
+  ...ZH_HANS,
+  languageName: '繁體中文',
+  appName: '限號助手',
+  weekdays: ['週一', '週二', '週三', '週四', '週五', '週六', '週日'],
+
+  noLimit: '不限行',
+  noLimitShort: '不限',
+  oddPlates: '單號',
+  evenPlates: '雙號',
+  oddEvenPlates: '單雙號',
+  noData: '暫無資訊',
+  fetchFailed: '取得失敗',
+  limitNumbers: limitText => `限號 ${limitText}`,
+  tailDigit: digit => `尾號${digit}`,
+
+  restrictedToday: '今日限行',
+  allowedToday: '今日可行',
+
+  hours: count => `${count} 小時`,
+  minutes: count => `${count} 分鐘`,
+  windowActive: remaining => `限行中，還剩 ${remaining}`,
+  windowUpcoming: start => `${start} 開始`,
+  windowEnded: '今日限行已結束',
+
+  workdayLabel: '調休',
+  holidayNames: {
+    '春节': '春節',
+    '清明节': '清明節',
+    '劳动节': '勞動節',
+    '端午节': '端午節',
+    '中秋节': '中秋節',
+    '国庆节': '國慶節'
+  },
+
+  staleData: (date, time) => `⚠︎ ${date} ${time}的資料`,
+  retryLater: '取得失敗，稍後重試',
+  weekTitle: range => `本週尾號限行（${range}）`,
+  addVehicleHint: '在App中執行腳本新增車輛',
+  moreVehicles: count => `另有${count}輛車未顯示`,
+  commuteTitle: '限號助手 · 通勤',
+  commuteEmptyHint: '在App中執行腳本設定通勤城市',
+  restrictedLegend: '■ 本車限行',
+  nextRotation: (month, day) => `${month}/${day} 起輪換`,
+  noRotation: '尾號不輪換',
+  noRotationInfo: '暫無輪換資訊',
+
+  errorShort: '錯誤',
+  errorInline: '限號取得失敗',
+  errorTitle: '取得資料失敗',
+  errorOccurred: '發生錯誤',
+  unknownError: '未知錯誤',
+  noTodayData: '沒有今天的資料',
+
+  notificationTitle: '限號查詢',
+  reminderTitle: '限號提醒',
+  specifyCityAction: '指定城市',
+  locationUnavailableSubtitle: '定位服務無法使用',
+  locationUnavailableBody: '無法取得您的城市資訊',
+  locationErrorSubtitle: '定位服務錯誤',
+  locationErrorBody: '取得城市資訊時發生錯誤',
+  fallbackCityNotice: (reason, city) => `${reason}，目前顯示${city}的限行資訊。可在App中指定城市`,
+  reminderBody: (day, weekday, plates, windowText) => `${day} (${weekday}) 您的車 ${plates} 限行${windowText ? ` ${windowText}` : ''}`,
+  cityChangedSubtitle: city => `已進入${city}`,
+  cityChangedBody: (city, limitText) => `${city}今日限行: ${limitText}`,
+
+  sourceNames: {
+    baidu: '百度搜尋',
+    weekendRule: '城市週末規則',
+    offlineRule: '離線規則',
+    holidayCalendar: '節假日日曆',
+    none: '無'
+  },
+  providerNames: {
+    baidu: '百度搜尋',
+    offline: '離線規則'
+  },
+  cityModeNames: {
+    auto: '自動定位',
+    fixed: '固定城市',
+    autoWithFallback: '自動定位，失敗時使用指定城市'
+  },
+  themeNames: {
+    system: '跟隨系統',
+    kindle: 'Kindle墨水屏',
+    highContrast: '高對比度'
+  },
+  verdictUnknown: '無法判斷',
+  ruleWithHoliday: (ruleText, holidayName, isWorkday) => `${ruleText}（${holidayName}${isWorkday ? '調休' : ''}）`,
+  fixedCityLabel: city => `固定城市：${city}`,
+  fallbackCityLabel: city => `自動定位（備用：${city}）`,
+  vehicleCount: count => `${count}輛車`,
+  loading: '正在取得限行資訊…',
+  enabled: '已開啟',
+  disabled: '已關閉',
+  notSet: '未設定',
+  searchTitle: '搜尋',
+  citySearchPrompt: '輸入城市名稱或拼音',
+  enterCityAction: '手動輸入城市',
+  enterCityTitle: '輸入城市',
+  enterCityMessage: '列表中沒有的城市可手動輸入城市名稱',
+  cityPlaceholder: '如：北京',
+  positiveNumberRequired: '請輸入大於0的數字',
+
+  weekHeader: '本週',
+  dataHeader: '資料',
+  sourceTitle: '資料來源',
+  fetchedAtTitle: '取得時間',
+  notFetched: '尚未取得',
+  statusTitle: '狀態',
+  staleStatus: failureCount => `舊資料（連續失敗${failureCount}次）`,
+  nextRetryTitle: '下次重試',
+  lastRefreshTitle: '本次重新整理',
+  refreshSummary: (provider, requestCount, latencyMs) => `${provider}，請求${requestCount}次，${latencyMs}ms`,
+  allProvidersFailed: '全部失敗',
+  settingsHeader: '設定',
+  maintenanceHeader: '維護',
+  forceRefresh: '強制重新整理',
+  clearCache: '清除快取',
+  clearCacheMessage: city => `確定要清除${city}的限號資訊快取並重新取得嗎？`,
+  redetectLocation: '重新定位',
+  fixedCityAlert: '已選擇固定城市，如需使用定位請在城市設定中選擇「自動定位」',
+
+  cityModeHeader: '選擇方式',
+  cityModeFooter: '選擇固定城市時不會使用定位服務',
+  fallbackCityHeader: '定位失敗時使用的城市',
+  autoSelectCityFooter: '自動定位時選擇城市將切換為固定城市',
+  detectionHeader: '位置變化偵測',
+  detectionFooter: '移動距離和識別間隔都未超過設定值時沿用上次識別的城市，不再進行反向地理編碼',
+  distanceTitle: '移動距離',
+  distanceMessage: '移動超過該距離（公里）時重新識別城市',
+  distanceValue: km => `移動距離: ${km} 公里`,
+  maxAgeTitle: '識別間隔',
+  maxAgeMessage: '城市資訊超過該時長（分鐘）時重新識別城市',
+  maxAgeValue: minutes => `識別間隔: ${minutes} 分鐘`,
+  notifyCityChange: '城市變化時通知',
+
+  garageTitle: '我的車庫',
+  garageFooter: '第一輛車為主車輛，小工具和提醒依車庫中的車輛判斷是否限行。選擇車輛可將其移除',
+  addVehicle: '新增車輛',
+  addVehicleMessage: '請輸入車牌號碼',
+  platePlaceholder: platePrefix => `如：${platePrefix}12345`,
+  nicknameTitle: '車輛暱稱',
+  nicknameMessage: '用於在小工具中區分車輛，可留空',
+  nicknamePlaceholder: '如：家用車',
+  invalidPlate: '車牌號碼無效，請重新輸入',
+  removeVehicleTitle: '移除車輛',
+  removeVehicleMessage: label => `確定要移除${label}嗎？`,
+
+  remindersTitle: '限行提醒',
+  remindersFooter: '只在車庫中的車輛實際限行的日期提醒，節假日不提醒',
+  enableReminders: '啟用提醒',
+  reminderTimesHeader: '提醒時間',
+  reminderTimesFooter: '選擇提醒時間可將其移除',
+  reminderTimeLabel: (time, isToday) => `${time} 提醒${isToday ? '當天' : '明天'}限行`,
+  addReminderTime: '新增提醒時間',
+  addReminderTitle: '新增提醒',
+  addReminderMessage: '請輸入提醒時間（24小時制）',
+  invalidReminderTime: '時間格式無效，請輸入如21:00的時間',
+  reminderSheetTitle: time => `${time}提醒`,
+  remindTomorrow: '提醒明天限行',
+  remindToday: '提醒當天限行',
+  upcomingHeader: '即將傳送',
+  noUpcomingReminders: '近期沒有需要提醒的限行',
+
+  holidaysTitle: '自訂節假日',
+  holidaysFooter: '自訂的日期優先於內建的節假日安排，用於補充內建資料中沒有的年份或臨時調整。選擇日期可將其移除',
+  holidayOverrideCount: count => `${count}個日期`,
+  noHolidayOverrides: '尚未新增自訂日期',
+  holidayOverrideLabel: (name, isWorkday) => name ? `${name}（${isWorkday ? '調休上班' : '放假'}）` : '一般日期',
+  addHolidayOverride: '新增日期',
+  holidayDateMessage: '請輸入日期（YYYY-MM-DD）',
+  holidayDatePlaceholder: '如：2027-01-01',
+  invalidHolidayDate: '日期格式無效，請輸入如2027-01-01的日期',
+  holidayTypeHoliday: '放假',
+  holidayTypeWorkday: '調休上班',
+  holidayTypeNormal: '一般日期（取消內建的安排）',
+  holidayNameTitle: '節日名稱',
+  holidayNameMessage: '在概覽和小工具中顯示',
+  holidayNamePlaceholder: '如：國慶節',
+  removeHolidayOverrideTitle: '移除自訂日期',
+  removeHolidayOverrideMessage: dateKey => `確定要移除${dateKey}的自訂安排嗎？移除後使用內建的節假日安排`,
+
+  commuteCitiesTitle: '通勤城市',
+  commuteSelectedHeader: (count, max) => `已選擇（${count}/${max}）`,
+  commuteFooter: '新增中型或大型小工具，並在小工具參數中填寫「通勤」。選擇城市可將其移除',
+  commuteLimitReached: max => `最多可選擇${max}個通勤城市，請先移除一個城市`,
+  noCommuteCities: '尚未選擇通勤城市',
+  addCityHeader: '新增城市',
+
+  themeTitle: '小工具主題',
+  themeFooter: '跟隨系統時自動適配淺色、深色模式和鎖定畫面著色；主題在小工具下次重新整理時生效',
+  languageTitle: '語言',
+  followSystem: '跟隨系統',
+  languageFooter: '跟隨系統時使用裝置的偏好語言，不支援時使用英文；語言在小工具下次重新整理時生效',
+  providersTitle: '資料來源',
+  providersFooter: '依序嘗試已啟用的資料來源，直到取得當天的限行資訊',
+  reorderHeader: '調整順序',
+  preferProvider: provider => `將${provider}設為首選`
+};
+
+/**
+ * 英文
+ */
+const EN: Messages = {
+  languageName: 'English',
+  appName: 'Plate Restriction',
+  weekdays: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+  weekdaysShort: ['M', 'T', 'W', 'T', 'F', 'S', 'S'],
+  listSeparator: ', ',
+  digitsSeparator: '&',
+
+  noLimit: 'No restriction',
+  noLimitShort: 'None',
+  oddPlates: 'Odd',
+  evenPlates: 'Even',
+  oddEvenPlates: 'Odd/Even',
+  noData: 'No data',
+  fetchFailed: 'Failed',
+  limitNumbers: limitText => `Plates ${limitText}`,
+  tailDigit: digit => `Ends in ${digit}`,
+  restrictedDigits: limitText => `Restricted ${limitText}`,
+
+  restrictedToday: 'Restricted today',
+  allowedToday: 'OK to drive',
+  restrictedShort: 'No drive',
+  allowedShort: 'OK',
+  restrictedMark: '✕',
+  allowedMark: '·',
+
+  hours: count => `${count}h`,
+  minutes: count => `${count}m`,
+  windowActive: remaining => `In effect, ${remaining} left`,
+  windowUpcoming: start => `Starts ${start}`,
+  windowEnded: 'Ended for today',
+
+  holidayMark: 'Off',
+  workdayMark: 'W',
+  workdayLabel: 'Workday',
+  holidayNames: {
+    '元旦': 'New Year',
+    '春节': 'Spring Festival',
+    '清明节': 'Qingming',
+    '劳动节': 'Labour Day',
+    '端午节': 'Dragon Boat',
+    '中秋节': 'Mid-Autumn',
+    '国庆节': 'National Day'
+  },
+
+  updatedAt: time => `Updated ${time}`,
+  staleData: (date, time) => `⚠︎ Data from ${date} ${time}`,
+  retryLater: 'Failed, retrying soon',
+  weekTitle: range => `This week (${range})`,
+  weekRange: (start, end) => `${start.month}/${start.day}/${start.year}-${end.month}/${end.day}`,
+  monthTitle: (year, month) => `${month}/${year}`,
+  addVehicleHint: 'Run the script in the app to add a vehicle',
+  moreVehicles: count => `${count} more vehicle${count > 1 ? 's' : ''}`,
+  commuteTitle: 'Plate Restriction · Commute',
+  commuteEmptyHint: 'Run the script in the app to pick commute cities',
+  today: 'Today',
+  tomorrow: 'Tomorrow',
+  restrictedLegend: '■ Your car restricted',
+  nextRotation: (month, day) => `Rotates ${month}/${day}`,
+  noRotation: 'No rotation',
+  noRotationInfo: 'Rotation unknown',
+
+  errorShort: 'Error',
+  errorInline: 'Restriction unavailable',
+  errorTitle: 'Failed to load data',
+  errorOccurred: 'Something went wrong',
+  unknownError: 'Unknown error',
+  noTodayData: 'No data for today',
+
+  notificationTitle: 'Plate Restriction',
+  reminderTitle: 'Restriction Reminder',
+  specifyCityAction: 'Choose City',
+  locationUnavailableSubtitle: 'Location unavailable',
+  locationUnavailableBody: 'Could not determine your city',
+  locationErrorSubtitle: 'Location error',
+  locationErrorBody: 'An error occurred while determining your city',
+  fallbackCityNotice: (reason, city) => `${reason}. Showing restrictions for ${city}. You can choose a city in the app`,
+  reminderBody: (day, weekday, plates, windowText) => `${day} (${weekday}): ${plates} restricted${windowText ? ` ${windowText}` : ''}`,
+  cityChangedSubtitle: city => `Now in ${city}`,
+  cityChangedBody: (city, limitText) => `${city} today: ${limitText}`,
+
+  sourceNames: {
+    baidu: 'Baidu search',
+    weekendRule: 'City weekend rule',
+    offlineRule: 'Offline rule',
+    holidayCalendar: 'Holiday calendar',
+    none: 'None'
+  },
+  providerNames: {
+    baidu: 'Baidu search',
+    offline: 'Offline rules'
+  },
+  cityModeNames: {
+    auto: 'Use location',
+    fixed: 'Fixed city',
+    autoWithFallback: 'Use location, fall back to a chosen city'
+  },
+  themeNames: {
+    system: 'System',
+    kindle: 'Kindle e-ink',
+    highContrast: 'High contrast'
+  },
+  verdictUnknown: 'Unknown',
+  ruleWithHoliday: (ruleText, holidayName, isWorkday) => `${ruleText} (${holidayName}${isWorkday ? ' makeup workday' : ''})`,
+  fixedCityLabel: city => `Fixed: ${city}`,
+  fallbackCityLabel: city => `Use location (fallback: ${city})`,
+  labelWithDetail: (label, detail) => `${label} (${detail})`,
+  vehicleCount: count => `${count} vehicle${count === 1 ? '' : 's'}`,
+  todaySuffix: ' (Today)',
+  loading: 'Loading restrictions…',
+  enabled: 'On',
+  disabled: 'Off',
+  notSet: 'Not set',
+  searchTitle: 'Search',
+  citySearchPrompt: 'City name or pinyin',
+  enterCityAction: 'Enter a City',
+  enterCityTitle: 'Enter City',
+  enterCityMessage: 'Type the name of a city that is not in the list',
+  cityPlaceholder: 'e.g. Beijing',
+  positiveNumberRequired: 'Please enter a number greater than 0',
+
+  weekHeader: 'This Week',
+  dataHeader: 'Data',
+  cityTitle: 'City',
+  fixedCityMark: ' (fixed)',
+  sourceTitle: 'Source',
+  fetchedAtTitle: 'Fetched',
+  notFetched: 'Never',
+  statusTitle: 'Status',
+  staleStatus: failureCount => `Outdated (${failureCount} failed attempt${failureCount === 1 ? '' : 's'})`,
+  latestStatus: 'Up to date',
+  nextRetryTitle: 'Next retry',
+  lastRefreshTitle: 'Last refresh',
+  refreshSummary: (provider, requestCount, latencyMs) => `${provider}, ${requestCount} request${requestCount === 1 ? '' : 's'}, ${latencyMs}ms`,
+  allProvidersFailed: 'All sources failed',
+  settingsHeader: 'Settings',
+  maintenanceHeader: 'Maintenance',
+  forceRefresh: 'Refresh Now',
+  clearCache: 'Clear Cache',
+  clearCacheMessage: city => `Clear the cached restrictions for ${city} and fetch them again?`,
+  redetectLocation: 'Detect Location Again',
+  fixedCityAlert: 'A fixed city is selected. Choose "Use location" in the city settings to use your location',
+
+  cityModeHeader: 'Mode',
+  cityModeFooter: 'Location services are not used with a fixed city',
+  fallbackCityHeader: 'City to use when location fails',
+  autoSelectCityFooter: 'Choosing a city switches to a fixed city',
+  detectionHeader: 'Location Change Detection',
+  detectionFooter: 'The last detected city is kept until you move farther or it gets older than these limits',
+  distanceTitle: 'Distance',
+  distanceMessage: 'Detect the city again after moving farther than this (km)',
+  distanceValue: km => `Distance: ${km} km`,
+  maxAgeTitle: 'Interval',
+  maxAgeMessage: 'Detect the city again when it is older than this (minutes)',
+  maxAgeValue: minutes => `Interval: ${minutes} min`,
+  notifyCityChange: 'Notify When City Changes',
+
+  garageTitle: 'My Garage',
+  garageFooter: 'The first vehicle is the primary one. Widgets and reminders check every vehicle in the garage. Tap a vehicle to remove it',
+  addVehicle: 'Add Vehicle',
+  addVehicleMessage: 'Enter the plate number',
+  platePlaceholder: platePrefix => `e.g. ${platePrefix}12345`,
+  nicknameTitle: 'Nickname',
+  nicknameMessage: 'Shown in widgets to tell vehicles apart (optional)',
+  nicknamePlaceholder: 'e.g. Family car',
+  invalidPlate: 'Invalid plate number, please try again',
+  removeVehicleTitle: 'Remove Vehicle',
+  removeVehicleMessage: label => `Remove ${label}?`,
+
+  remindersTitle: 'Reminders',
+  remindersFooter: 'Reminders are only sent on days a vehicle in your garage is restricted, never on holidays',
+  enableReminders: 'Enable Reminders',
+  reminderTimesHeader: 'Reminder Times',
+  reminderTimesFooter: 'Tap a time to remove it',
+  reminderTimeLabel: (time, isToday) => `${time} for ${isToday ? 'the same day' : 'the next day'}`,
+  addReminderTime: 'Add Reminder Time',
+  addReminderTitle: 'Add Reminder',
+  addReminderMessage: 'Enter the reminder time (24-hour)',
+  reminderTimePlaceholder: 'e.g. 21:00',
+  invalidReminderTime: 'Invalid time, please enter a time like 21:00',
+  reminderSheetTitle: time => `Reminder at ${time}`,
+  remindTomorrow: 'Remind about the next day',
+  remindToday: 'Remind about the same day',
+  upcomingHeader: 'Upcoming',
+  noUpcomingReminders: 'No restricted days coming up',
+
+  holidaysTitle: 'Custom Holidays',
+  holidaysFooter: 'Custom dates take precedence over the built-in holiday schedule. Use them for years without built-in data or for temporary changes. Tap a date to remove it',
+  holidayOverrideCount: count => `${count} date${count === 1 ? '' : 's'}`,
+  noHolidayOverrides: 'No custom dates yet',
+  holidayOverrideLabel: (name, isWorkday) => name ? `${name} (${isWorkday ? 'makeup workday' : 'day off'})` : 'Regular day',
+  addHolidayOverride: 'Add Date',
+  holidayDateMessage: 'Enter a date (YYYY-MM-DD)',
+  holidayDatePlaceholder: 'e.g. 2027-01-01',
+  invalidHolidayDate: 'Invalid date. Enter a date such as 2027-01-01',
+  holidayTypeHoliday: 'Day off',
+  holidayTypeWorkday: 'Makeup workday',
+  holidayTypeNormal: 'Regular day (ignore the built-in schedule)',
+  holidayNameTitle: 'Holiday Name',
+  holidayNameMessage: 'Shown in the overview and widgets',
+  holidayNamePlaceholder: 'e.g. National Day',
+  removeHolidayOverrideTitle: 'Remove Custom Date',
+  removeHolidayOverrideMessage: dateKey => `Remove the custom schedule for ${dateKey}? The built-in holiday schedule will be used`,
+
+  commuteCitiesTitle: 'Commute Cities',
+  commuteSelectedHeader: (count, max) => `Selected (${count}/${max})`,
+  commuteFooter: 'Add a medium or large widget and set its parameter to "commute". Tap a city to remove it',
+  commuteLimitReached: max => `You can choose up to ${max} commute cities. Remove one first`,
+  noCommuteCities: 'No commute cities yet',
+  addCityHeader: 'Add City',
+  commuteCityPlaceholder: 'e.g. Foshan',
+
+  themeTitle: 'Widget Theme',
+  themeFooter: 'System adapts to light mode, dark mode and Lock Screen tinting. Themes apply on the next widget refresh',
+  languageTitle: 'Language',
+  followSystem: 'System',
+  languageFooter: 'System uses the first supported preferred language of the device, or English. Applies on the next widget refresh',
+  providersTitle: 'Data Sources',
+  providersFooter: 'Enabled sources are tried in order until one returns today\'s restriction',
+  reorderHeader: 'Reorder',
+  preferProvider: provider => `Prefer ${provider}`
+};
+
+/**
+ * 所有语言的消息目录
+ */
+export const MESSAGE_CATALOG: Record<Locale, Messages> = {
+  'zh-Hans': ZH_HANS,
+  'zh-Hant': ZH_HANT,
+  'en': EN
+};
+
+/**
+ * 繁体中文的城市名称（与简体相同的不列出）
+ */
+const ZH_HANT_CITY_NAMES: Record<string, string> = {
+  guangzhou: '廣州',
+  lanzhou: '蘭州',
+  guiyang: '貴陽',
+  changchun: '長春',
+  haerbin: '哈爾濱',
+  shijiazhuang: '石家莊',
+  handan: '邯鄲',
+  zhengzhou: '鄭州'
+};
+
+/**
+ * 获取语言设置，默认跟随设备
+ */
+export function getLanguageSetting(): LanguageSetting {
+  const setting = Storage.get<LanguageSetting>(LANGUAGE_SETTING_KEY);
+  return setting && (setting === 'system' || MESSAGE_CATALOG[setting]) ? setting : 'system';
+}
+
+/**
+ * 保存语言设置，小组件下次刷新时生效
+ * @param setting 语言设置
+ */
+export function saveLanguageSetting(setting: LanguageSetting): void {
+  Storage.set<LanguageSetting>(LANGUAGE_SETTING_KEY, setting);
+}
+
+/**
+ * 将语言代码匹配到支持的语言
+ * @param language 语言代码，如"zh-Hans-CN"、"zh-TW"、"en-US"
+ * @returns 支持的语言，不支持时返回null
+ */
+export function matchLocale(language: string): Locale | null {
+  const code = language.replace(/_/g, '-').toLowerCase();
+  if (code.startsWith('zh')) {
+    return /^zh-(hant|tw|hk|mo)/.test(code) ? 'zh-Hant' : 'zh-Hans';
+  }
+  return code.startsWith('en') ? 'en' : null;
+}
+
+/**
+ * 获取设备的首选语言列表
+ */
+function getDeviceLanguages(): string[] {
+  if (typeof Device !== 'undefined' && Array.isArray(Device.preferredLanguages)) {
+    return Device.preferredLanguages;
+  }
+  return [Intl.DateTimeFormat().resolvedOptions().locale];
+}
+
+/**
+ * 获取当前使用的语言：语言设置指定的语言，或设备首选语言中第一个支持的语言；都不支持时使用英文
+ */
+export function getLocale(): Locale {
+  const setting = getLanguageSetting();
+  if (setting !== 'system') {
+    return setting;
+  }
+  for (const language of getDeviceLanguages()) {
+    const locale = matchLocale(language);
+    if (locale) {
+      return locale;
+    }
+  }
+  return 'en';
+}
+
+/**
+ * 获取当前语言的消息目录
+ */
+export function getMessages(): Messages {
+  return MESSAGE_CATALOG[getLocale()];
+}
+
+/**
+ * 获取城市的本地化名称：英文使用城市的英文别名，繁体中文使用繁体名称
+ * @param id 城市ID
+ */
+export function getLocalizedCityName(id: string): string {
+  const locale = getLocale();
+  const city = getCityInfo(id);
+  if (locale === 'en' && city) {
+    return city.aliases.find(alias => /^[A-Za-z]/.test(alias)) || city.name;
+  }
+  if (locale === 'zh-Hant') {
+    return ZH_HANT_CITY_NAMES[id] || getCityName(id);
+  }
+  return getCityName(id);
+}
+
+/**
+ * 获取星期的本地化名称
+ * @param weekdayIndex 星期索引（0=周一 ... 6=周日）
+ */
+export function getWeekdayName(weekdayIndex: number): string {
+  return getMessages().weekdays[weekdayIndex];
+}
+
+/**
+ * 获取节假日的本地化简称，如"国庆"、"National Day"；调休上班日返回"调休"
+ */
+export function getHolidayLabel(holiday: HolidayInfo): string {
+  const messages = getMessages();
+  if (holiday.type !== 'holiday') {
+    return messages.workdayLabel;
+  }
+  const name = messages.holidayNames[holiday.name] || holiday.name;
+  return name.replace(/[节節]$/, '');
+}
+
+/**
+ * 获取限行规则的本地化简短文本，如"4,9"、"单号"、"不限行"
+ */
+export function formatShortLimit(rule: RestrictionRule): string {
+  const messages = getMessages();
+  if (rule.mode === 'none') {
+    return messages.noLimit;
+  }
+  if (rule.mode === 'oddEven') {
+    return rule.parity === 'odd' ? messages.oddPlates : rule.parity === 'even' ? messages.evenPlates : messages.oddEvenPlates;
+  }
+  if (rule.mode === 'digits' && rule.digits.length > 0) {
+    return rule.digits.join(',');
+  }
+  // 获取失败：区分没有数据和请求失败两种情况
+  if (rule.error && rule.error.code !== 'notFound' && rule.error.code !== 'noData') {
+    return messages.fetchFailed;
+  }
+  return messages.noData;
+}
+
+/**
+ * 获取限行规则的本地化文本（含限行时间段），用于通知，如"4和9 7:00-20:00"
+ */
+export function formatLocalizedLimit(rule: RestrictionRule): string {
+  const messages = getMessages();
+  const limitText = rule.mode === 'digits' && rule.digits.length > 0
+    ? rule.digits.join(messages.digitsSeparator)
+    : formatShortLimit(rule);
+  const windowText = rule.mode !== 'none' && rule.mode !== 'error'
+    ? rule.timeWindows.map(formatTimeWindow).join(' ')
+    : '';
+  return windowText ? `${limitText} ${windowText}` : limitText;
+}
@@ -0,0 +1,219 @@
+// 位置变化检测模块
+// 记录上次识别城市时的坐标，只有设备移动超过设定距离或城市信息超过设定时长时才重新进行反向地理编码；
+// 识别到的城市发生变化时记录城市变化，由限号信息服务刷新新城市的数据并按设置发送通知
+
+import { Notification } from 'scripting'
+import { withTimeout } from './base'
+import { getCityName } from './cityRegistry'
+import { formatLocalizedLimit, getLocalizedCityName, getMessages } from './i18n'
+import { RestrictionRule } from './restriction'
+
+/**
+ * 位置变化检测设置缓存键
+ */
+export const LOCATION_CHANGE_SETTINGS_KEY = 'locationChangeSettings';
+
+/**
+ * 上次识别城市时的位置缓存键
+ */
+const LAST_CITY_LOCATION_KEY = 'lastCityLocation';
+
+/**
+ * 尚未处理的城市变化缓存键
+ */
+const PENDING_CITY_CHANGE_KEY = 'pendingCityChange';
+
+/**
+ * 地球平均半径（米）
+ */
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * 位置变化检测设置
+ */
+export interface LocationChangeSettings {
+  distanceMeters: number;     // 移动超过该距离时重新识别城市
+  maxAgeMinutes: number;      // 城市信息超过该时长时重新识别城市
+  notify: boolean;            // 城市变化时是否发送通知
+}
+
+/**
+ * 默认位置变化检测设置：移动超过5公里或超过3小时重新识别城市，城市变化时通知
+ */
+export const DEFAULT_LOCATION_CHANGE_SETTINGS: LocationChangeSettings = {
+  distanceMeters: 5000,
+  maxAgeMinutes: 180,
+  notify: true
+};
+
+/**
+ * 坐标
+ */
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * 上次识别城市时的位置
+ */
+export interface CityLocation extends Coordinates {
+  city: string;           // 识别到的城市ID
+  resolvedAt: number;     // 识别时间戳
+}
+
+/**
+ * 城市变化
+ */
+export interface CityChange {
+  from: string;           // 之前的城市ID
+  to: string;             // 新的城市ID
+  changedAt: number;
+}
+
+/**
+ * 获取位置变化检测设置
+ */
+export function getLocationChangeSettings(): LocationChangeSettings {
+  return { ...DEFAULT_LOCATION_CHANGE_SETTINGS, ...Storage.get<Partial<LocationChangeSettings>>(LOCATION_CHANGE_SETTINGS_KEY) };
+}
+
+/**
+ * 保存位置变化检测设置
+ * @param settings 位置变化检测设置
+ */
+export function saveLocationChangeSettings(settings: LocationChangeSettings): void {
+  Storage.set<LocationChangeSettings>(LOCATION_CHANGE_SETTINGS_KEY, settings);
+}
+
+/**
+ * 计算两个坐标之间的球面距离（米）
+ */
+export function getDistanceMeters(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(deltaLatitude / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(deltaLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * 获取上次识别城市时的位置
+ * @returns 位置，从未识别过时返回null
+ */
+export function getLastCityLocation(): CityLocation | null {
+  return Storage.get<CityLocation>(LAST_CITY_LOCATION_KEY);
+}
+
+/**
+ * 判断上次识别的城市是否仍然有效（未超过设定时长）
+ * @param lastLocation 上次识别城市时的位置
+ * @param now 当前时间戳
+ * @param settings 位置变化检测设置
+ */
+export function isCityLocationRecent(
+  lastLocation: CityLocation,
+  now: number = Date.now(),
+  settings: LocationChangeSettings = getLocationChangeSettings()
+): boolean {
+  return now - lastLocation.resolvedAt < settings.maxAgeMinutes * 60 * 1000;
+}
+
+/**
+ * 判断当前位置是否需要重新识别城市：从未识别过、移动超过设定距离或城市信息超过设定时长
+ * @param current 当前坐标
+ * @param lastLocation 上次识别城市时的位置
+ * @param now 当前时间戳
+ * @param settings 位置变化检测设置
+ */
+export function shouldResolveCity(
+  current: Coordinates,
+  lastLocation: CityLocation | null,
+  now: number = Date.now(),
+  settings: LocationChangeSettings = getLocationChangeSettings()
+): boolean {
+  if (!lastLocation) {
+    return true;
+  }
+  const distance = getDistanceMeters(lastLocation, current);
+  if (distance >= settings.distanceMeters) {
+    console.log(`距上次识别城市的位置${Math.round(distance)}米，重新识别城市`);
+    return true;
+  }
+  if (!isCityLocationRecent(lastLocation, now, settings)) {
+    console.log('城市信息已超过设定时长，重新识别城市');
+    return true;
+  }
+  return false;
+}
+
+/**
+ * 记录识别到的城市和位置，城市与上次不同时记录城市变化
+ * @param current 当前坐标
+ * @param city 识别到的城市ID
+ * @param now 当前时间戳
+ * @returns 城市变化，城市未变化或首次识别时返回null
+ */
+export function recordCityLocation(current: Coordinates, city: string, now: number = Date.now()): CityChange | null {
+  const lastLocation = getLastCityLocation();
+  Storage.set<CityLocation>(LAST_CITY_LOCATION_KEY, {
+    latitude: current.latitude,
+    longitude: current.longitude,
+    city,
+    resolvedAt: now
+  });
+
+  if (!lastLocation || lastLocation.city === city) {
+    return null;
+  }
+
+  const change: CityChange = { from: lastLocation.city, to: city, changedAt: now };
+  Storage.set<CityChange>(PENDING_CITY_CHANGE_KEY, change);
+  console.log(`城市已从${getCityName(change.from)}变为${getCityName(change.to)}`);
+  return change;
+}
+
+/**
+ * 取出尚未处理的城市变化，取出后清除
+ * @returns 城市变化，没有时返回null
+ */
+export function takePendingCityChange(): CityChange | null {
+  const change = Storage.get<CityChange>(PENDING_CITY_CHANGE_KEY);
+  if (change) {
+    Storage.remove(PENDING_CITY_CHANGE_KEY);
+  }
+  return change;
+}
+
+/**
+ * 按设置发送城市变化通知
+ * @param change 城市变化
+ * @param limitInfo 新城市今天的限行规则
+ */
+export async function notifyCityChange(change: CityChange, limitInfo: RestrictionRule): Promise<void> {
+  if (!getLocationChangeSettings().notify) {
+    return;
+  }
+
+  try {
+    const messages = getMessages();
+    const cityName = getLocalizedCityName(change.to);
+    await withTimeout(
+      Notification.schedule({
+        title: messages.notificationTitle,
+        subtitle: messages.cityChangedSubtitle(cityName),
+        body: messages.cityChangedBody(cityName, formatLocalizedLimit(limitInfo)),
+        interruptionLevel: 'active',
+        tapAction: {
+          type: 'runScript',
+          scriptName: '限号'
+        }
+      }),
+      2000, // 2秒超时
+      null
+    );
+  } catch (notificationError) {
+    console.error('发送城市变化通知失败:', notificationError);
+  }
+}
@@ -0,0 +1,73 @@
+// 月历模块
+// 按任意日期计算当月每一天的限行规则（缓存中的数据优先，其次离线规则），
+// 用于大号小组件显示当月限行日历、节假日和本车限行的日期
+
+import { addDays, createDate, formatDateKey, getDateParts, getWeekdayIndex, startOfDay } from './calendar'
+import { getHolidayInfo, HolidayInfo } from './holiday'
+import { RestrictionRule } from './restriction'
+import { getNextRotationDate } from './rules'
+import { getDayLimitRule, getPlateRestriction, PlateRestriction } from './service'
+import { getPrimaryVehicle } from './vehicle'
+
+/**
+ * 月历中的一天
+ */
+export interface CalendarDay {
+  date: Date;
+  day: number;                        // 几号
+  isToday: boolean;
+  limitInfo: RestrictionRule;         // 已按节假日调整
+  holiday: HolidayInfo | null;
+  vehicle: PlateRestriction | null;   // 主车辆的限行判定，车库为空时为null
+}
+
+/**
+ * 当月的限行日历
+ */
+export interface MonthCalendar {
+  city: string;
+  year: number;
+  month: number;
+  weeks: (CalendarDay | null)[][];    // 每周一行（周一到周日），不属于当月的位置为null
+  nextRotation: Date | null;          // 下一次轮换限行尾号的日期，不轮换或没有离线规则时为null
+}
+
+/**
+ * 构建当月的限行日历，不发送网络请求：今天使用已获取的规则，其他日期使用缓存或离线规则
+ * @param city 城市ID
+ * @param todayRule 今天的限行规则（已按节假日调整）
+ * @param now 当前时间
+ */
+export function buildMonthCalendar(city: string, todayRule: RestrictionRule, now: Date = new Date()): MonthCalendar {
+  const { year, month } = getDateParts(now);
+  const today = startOfDay(now);
+  const firstDay = createDate(year, month, 1);
+  const primaryVehicle = getPrimaryVehicle();
+
+  // 第一周在1号之前的位置留空
+  const cells: (CalendarDay | null)[] = new Array(getWeekdayIndex(firstDay)).fill(null);
+  for (let date = firstDay; getDateParts(date).month === month; date = addDays(date, 1)) {
+    const isToday = formatDateKey(date) === formatDateKey(today);
+    const limitInfo = isToday ? todayRule : getDayLimitRule(city, date);
+    cells.push({
+      date,
+      day: getDateParts(date).day,
+      isToday,
+      limitInfo,
+      holiday: getHolidayInfo(date),
+      vehicle: primaryVehicle ? getPlateRestriction(limitInfo, primaryVehicle.plate) : null
+    });
+  }
+
+  // 最后一周在月末之后的位置留空
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks: (CalendarDay | null)[][] = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    weeks.push(cells.slice(index, index + 7));
+  }
+
+  return { city, year, month, weeks, nextRotation: getNextRotationDate(city, today) };
+}
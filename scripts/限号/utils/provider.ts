@@ -0,0 +1,190 @@
+// 限行数据源模块
+
+import { withTimeout } from './base'
+import { getCityName } from './cityRegistry'
+import { baiduProvider } from './network'
+import { createErrorRule, formatRestrictionRule, RestrictionRule } from './restriction'
+import { offlineProvider } from './rules'
+
+/**
+ * 数据源返回的限行信息
+ */
+export interface ProviderResult {
+  todayData: RestrictionRule;                   // 当天限行规则
+  weeklyData: Record<string, RestrictionRule>;  // 一周限行规则（键为"周一"到"周日"）
+}
+
+/**
+ * 获取文档过程中的统计信息，由数据源在每次发送网络请求时更新
+ */
+export interface FetchStats {
+  requestCount: number;   // 网络请求次数（包含备用URL）
+}
+
+/**
+ * 一次刷新的统计信息
+ */
+export interface RefreshStats {
+  providerId: string | null;  // 返回结果的数据源，全部失败时为null
+  attempts: number;           // 尝试的数据源个数
+  requestCount: number;       // 所有数据源的网络请求总次数
+  latencyMs: number;          // 总耗时（毫秒）
+}
+
+/**
+ * 按数据源链刷新得到的限行信息
+ */
+export interface RefreshResult extends ProviderResult {
+  stats: RefreshStats;
+}
+
+/**
+ * 限行数据源
+ * fetch负责获取原始文档（如HTML页面），parse负责从文档中提取限行规则；
+ * 同一份文档同时用于提取当天和一周的限行规则，每次刷新只获取一次
+ */
+export interface RestrictionProvider {
+  id: string;
+  name: string;
+  fetch(city: string, stats: FetchStats): Promise<string>;
+  parse(document: string, city: string): ProviderResult;
+}
+
+/**
+ * 数据源配置
+ */
+export interface ProviderConfig {
+  id: string;
+  enabled: boolean;
+  timeoutMs: number;    // 单个数据源的超时时间（毫秒），包含获取和解析
+}
+
+/**
+ * 数据源链配置缓存键
+ */
+export const PROVIDER_CHAIN_KEY = 'providerChain';
+
+/**
+ * 单个数据源的默认超时时间（毫秒）
+ */
+export const DEFAULT_PROVIDER_TIMEOUT = 15000;
+
+/**
+ * 所有可用的数据源
+ */
+const PROVIDERS: RestrictionProvider[] = [
+  baiduProvider,
+  offlineProvider
+];
+
+/**
+ * 默认数据源链，按顺序尝试：优先使用百度搜索，失败时使用离线规则
+ * 将离线规则移到最前即可作为主数据源，减少网络请求
+ */
+export const DEFAULT_PROVIDER_CHAIN: ProviderConfig[] = PROVIDERS.map(provider => ({
+  id: provider.id,
+  enabled: true,
+  timeoutMs: DEFAULT_PROVIDER_TIMEOUT
+}));
+
+/**
+ * 获取所有可用的数据源
+ */
+export function getProviders(): RestrictionProvider[] {
+  return PROVIDERS;
+}
+
+/**
+ * 获取数据源链配置
+ * 已保存的配置中不存在的数据源会被忽略，新增的数据源追加到末尾
+ * @returns 按尝试顺序排列的数据源配置
+ */
+export function getProviderChain(): ProviderConfig[] {
+  const savedChain = Storage.get<ProviderConfig[]>(PROVIDER_CHAIN_KEY);
+  if (!savedChain || savedChain.length === 0) {
+    return DEFAULT_PROVIDER_CHAIN;
+  }
+
+  const chain = savedChain.filter(config => PROVIDERS.some(provider => provider.id === config.id));
+  for (const defaultConfig of DEFAULT_PROVIDER_CHAIN) {
+    if (!chain.some(config => config.id === defaultConfig.id)) {
+      chain.push(defaultConfig);
+    }
+  }
+  return chain;
+}
+
+/**
+ * 保存数据源链配置
+ * @param chain 按尝试顺序排列的数据源配置
+ */
+export function saveProviderChain(chain: ProviderConfig[]): void {
+  Storage.set<ProviderConfig[]>(PROVIDER_CHAIN_KEY, chain);
+  console.log(`已保存数据源链: ${chain.map(config => `${config.id}${config.enabled ? '' : '(停用)'}`).join(' -> ')}`);
+}
+
+/**
+ * 使用单个数据源获取并解析限行信息
+ */
+async function runProvider(provider: RestrictionProvider, city: string, stats: FetchStats): Promise<ProviderResult> {
+  try {
+    const document = await provider.fetch(city, stats);
+    return provider.parse(document, city);
+  } catch (e) {
+    console.error(`数据源${provider.name}获取失败:`, e);
+    return {
+      todayData: createErrorRule('network', `获取${getCityName(city)}限号信息失败: ${e instanceof Error ? e.message : '未知错误'}`),
+      weeklyData: {}
+    };
+  }
+}
+
+/**
+ * 按数据源链的顺序获取限行信息，直到某个数据源返回有效的当天限行规则
+ * @param city 城市ID
+ * @returns 第一个成功的数据源的结果；全部失败时返回最后一个失败结果。均包含本次刷新的统计信息
+ */
+export async function fetchFromProviders(city: string): Promise<RefreshResult> {
+  const startTime = Date.now();
+  const fetchStats: FetchStats = { requestCount: 0 };
+  let attempts = 0;
+  let lastResult: ProviderResult = {
+    todayData: createErrorRule('noData', '没有可用的数据源'),
+    weeklyData: {}
+  };
+
+  const createStats = (providerId: string | null): RefreshStats => ({
+    providerId,
+    attempts,
+    requestCount: fetchStats.requestCount,
+    latencyMs: Date.now() - startTime
+  });
+
+  for (const config of getProviderChain()) {
+    const provider = PROVIDERS.find(item => item.id === config.id);
+    if (!provider || !config.enabled) {
+      continue;
+    }
+
+    attempts++;
+    console.log(`===== 尝试数据源: ${provider.name}（超时${config.timeoutMs}ms） =====`);
+    const result = await withTimeout(
+      runProvider(provider, city, fetchStats),
+      config.timeoutMs,
+      {
+        todayData: createErrorRule('timeout', `数据源${provider.name}超时`),
+        weeklyData: {}
+      }
+    );
+
+    if (result.todayData.mode !== 'error') {
+      console.log(`✓ 数据源${provider.name}获取成功: ${formatRestrictionRule(result.todayData)}`);
+      return { ...result, stats: createStats(provider.id) };
+    }
+
+    console.log(`✗ 数据源${provider.name}获取失败: ${formatRestrictionRule(result.todayData)}`);
+    lastResult = result;
+  }
+
+  return { ...lastResult, stats: createStats(null) };
+}
@@ -0,0 +1,245 @@
+// 限行提醒模块
+// 在设定的时间发送通知提醒今天或明天车库中的车辆限行，只在车辆实际限行的日期提醒（已按节假日调整），
+// 限号数据刷新或设置变化时重新安排提醒
+
+import { Notification } from 'scripting'
+import { getCachedLimitData } from './cache'
+import { addDays, formatDateKey, getWeekdayIndex, startOfDay } from './calendar'
+import { formatShortLimit, getMessages, getWeekdayName } from './i18n'
+import { formatTimeWindow } from './restriction'
+import { getDayLimitRule, getPlateRestriction } from './service'
+import { getGarage, maskPlate } from './vehicle'
+
+/**
+ * 提醒设置缓存键
+ */
+export const REMINDER_SETTINGS_KEY = 'reminderSettings';
+
+/**
+ * 已安排的提醒缓存键
+ */
+const REMINDER_PLAN_KEY = 'reminderPlan';
+
+/**
+ * 提醒通知标识的前缀
+ */
+const REMINDER_IDENTIFIER_PREFIX = 'plateReminder';
+
+/**
+ * 提前安排提醒的天数
+ */
+const REMINDER_PLAN_DAYS = 7;
+
+/**
+ * 提醒的目标日期
+ * today: 提醒当天限行；tomorrow: 提醒明天限行
+ */
+export type ReminderTarget = 'today' | 'tomorrow';
+
+/**
+ * 单个提醒时间
+ */
+export interface ReminderTime {
+  time: string;             // 提醒时间（24小时制，HH:MM格式）
+  target: ReminderTarget;
+}
+
+/**
+ * 提醒设置
+ */
+export interface ReminderSettings {
+  enabled: boolean;
+  times: ReminderTime[];
+}
+
+/**
+ * 默认提醒设置：前一天21:00提醒明天限行，当天07:00提醒今天限行
+ */
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  times: [
+    { time: '21:00', target: 'tomorrow' },
+    { time: '07:00', target: 'today' }
+  ]
+};
+
+/**
+ * 已安排的一条提醒
+ */
+export interface PlannedReminder {
+  identifier: string;   // 通知标识，重新安排时只移除这些通知
+  fireAt: number;       // 提醒时间戳
+  dateKey: string;      // 限行日期（YYYY-MM-DD）
+  title: string;
+  body: string;
+}
+
+/**
+ * 已安排的提醒，用于判断是否需要重新安排
+ */
+interface ReminderPlan {
+  city: string;
+  plannedAt: number;
+  dataUpdatedAt: number | null;   // 安排时缓存数据的最近成功刷新时间
+  signature: string;              // 设置和车库的摘要，变化时重新安排
+  reminders: PlannedReminder[];
+}
+
+/**
+ * 获取提醒设置
+ */
+export function getReminderSettings(): ReminderSettings {
+  return Storage.get<ReminderSettings>(REMINDER_SETTINGS_KEY) || DEFAULT_REMINDER_SETTINGS;
+}
+
+/**
+ * 保存提醒设置，保存后需调用updateReminders重新安排提醒
+ * @param settings 提醒设置
+ */
+export function saveReminderSettings(settings: ReminderSettings): void {
+  Storage.set<ReminderSettings>(REMINDER_SETTINGS_KEY, settings);
+}
+
+/**
+ * 解析HH:MM格式的提醒时间
+ * @returns 从零点起的分钟数，格式无效时返回null
+ */
+export function parseReminderTime(time: string): number | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * 计算设置和车库的摘要
+ */
+function getPlanSignature(settings: ReminderSettings): string {
+  return JSON.stringify({ settings, plates: getGarage().map(vehicle => vehicle.plate) });
+}
+
+/**
+ * 计算未来几天需要发送的提醒，不发送网络请求
+ * @param city 城市ID
+ * @param settings 提醒设置
+ * @param now 当前时间
+ * @returns 按时间先后排序的提醒
+ */
+export function planReminders(city: string, settings: ReminderSettings = getReminderSettings(), now: Date = new Date()): PlannedReminder[] {
+  const garage = getGarage();
+  if (!settings.enabled || garage.length === 0) {
+    return [];
+  }
+
+  const messages = getMessages();
+  const today = startOfDay(now);
+  const reminders: PlannedReminder[] = [];
+
+  for (let offset = 0; offset <= REMINDER_PLAN_DAYS; offset++) {
+    const date = addDays(today, offset);
+    const rule = getDayLimitRule(city, date);
+    const restrictedPlates = garage
+      .filter(vehicle => getPlateRestriction(rule, vehicle.plate).verdict === 'restricted')
+      .map(vehicle => maskPlate(vehicle.plate));
+    if (restrictedPlates.length === 0) {
+      continue;
+    }
+
+    const windowText = rule.timeWindows.map(formatTimeWindow).join(' ');
+    const platesText = restrictedPlates.join(messages.listSeparator);
+    for (const reminderTime of settings.times) {
+      const minutes = parseReminderTime(reminderTime.time);
+      if (minutes === null) {
+        continue;
+      }
+
+      // 提醒明天限行时在前一天的提醒时间发送
+      const fireDate = reminderTime.target === 'tomorrow' ? addDays(date, -1) : date;
+      const fireAt = fireDate.getTime() + minutes * 60 * 1000;
+      if (fireAt <= now.getTime()) {
+        continue;
+      }
+
+      const dayText = reminderTime.target === 'tomorrow' ? messages.tomorrow : messages.today;
+      reminders.push({
+        identifier: `${REMINDER_IDENTIFIER_PREFIX}-${formatDateKey(date)}-${reminderTime.target}-${reminderTime.time}`,
+        fireAt,
+        dateKey: formatDateKey(date),
+        title: messages.reminderTitle,
+        body: messages.reminderBody(dayText, getWeekdayName(getWeekdayIndex(date)), platesText, windowText)
+      });
+    }
+    console.log(`${formatDateKey(date)} 限行尾号${formatShortLimit(rule)}，${restrictedPlates.join('、')}限行`);
+  }
+
+  return reminders.sort((a, b) => a.fireAt - b.fireAt);
+}
+
+/**
+ * 判断是否需要重新安排提醒：城市、数据、设置或车库发生变化，或今天尚未安排
+ */
+function shouldReplan(plan: ReminderPlan | null, city: string, signature: string, now: Date): boolean {
+  if (!plan || plan.city !== city || plan.signature !== signature) {
+    return true;
+  }
+  const cacheData = getCachedLimitData(city);
+  const dataUpdatedAt = cacheData ? cacheData.lastSuccessAt : null;
+  return plan.dataUpdatedAt !== dataUpdatedAt || formatDateKey(new Date(plan.plannedAt)) !== formatDateKey(now);
+}
+
+/**
+ * 按最新的限号数据重新安排提醒通知
+ * 限号数据刷新、设置或车库变化时重新安排；否则保留已安排的提醒
+ * @param city 城市ID
+ * @param options 配置选项
+ * @param options.force 是否强制重新安排
+ * @returns 已安排的提醒
+ */
+export async function updateReminders(city: string, options?: { force?: boolean }): Promise<PlannedReminder[]> {
+  const now = new Date();
+  const settings = getReminderSettings();
+  const signature = getPlanSignature(settings);
+  const plan = Storage.get<ReminderPlan>(REMINDER_PLAN_KEY);
+
+  if (!options?.force && !shouldReplan(plan, city, signature, now)) {
+    return plan ? plan.reminders : [];
+  }
+
+  console.log(`===== 重新安排${city}限行提醒 =====`);
+  const reminders = planReminders(city, settings, now);
+
+  // 先移除之前安排的提醒，再按新的数据安排；只移除提醒通知，保留城市变化等其他通知
+  if (plan && plan.reminders.length > 0) {
+    await Notification.removePendings(plan.reminders.map(reminder => reminder.identifier));
+  }
+  for (const reminder of reminders) {
+    await Notification.schedule({
+      identifier: reminder.identifier,
+      title: reminder.title,
+      body: reminder.body,
+      interruptionLevel: 'timeSensitive',
+      trigger: new TimeIntervalNotificationTrigger({
+        timeInterval: Math.round((reminder.fireAt - now.getTime()) / 1000),
+        repeats: false
+      }),
+      tapAction: {
+        type: 'runScript',
+        scriptName: '限号'
+      }
+    });
+  }
+
+  const cacheData = getCachedLimitData(city);
+  Storage.set<ReminderPlan>(REMINDER_PLAN_KEY, {
+    city,
+    plannedAt: now.getTime(),
+    dataUpdatedAt: cacheData ? cacheData.lastSuccessAt : null,
+    signature,
+    reminders
+  });
+  console.log(`已安排${reminders.length}条限行提醒`);
+  return reminders;
+}
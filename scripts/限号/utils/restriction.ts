@@ -0,0 +1,185 @@
+// 限行规则数据模型模块
+
+/**
+ * 限行方式
+ * digits: 按尾号限行；oddEven: 单双号限行；none: 不限行；error: 获取失败
+ */
+export type RestrictionMode = 'digits' | 'oddEven' | 'none' | 'error';
+
+/**
+ * 单双号限行的类型
+ * odd: 单号限行；even: 双号限行；unknown: 实行单双号但无法确定当天单双
+ */
+export type OddEvenParity = 'odd' | 'even' | 'unknown';
+
+/**
+ * 数据来源
+ * baidu: 百度搜索结果；weekendRule: 城市周末规则表；offlineRule: 离线轮换规则表；
+ * holidayCalendar: 节假日日历；none: 无来源
+ */
+export type RestrictionSource = 'baidu' | 'weekendRule' | 'offlineRule' | 'holidayCalendar' | 'none';
+
+/**
+ * 数据可信度
+ */
+export type RestrictionConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * 错误类型
+ * network: 网络请求失败；invalidPage: 页面无效或为重定向页面；
+ * notFound: 页面中未找到限号信息；noData: 没有该日期的数据；timeout: 数据源超时
+ */
+export type RestrictionErrorCode = 'network' | 'invalidPage' | 'notFound' | 'noData' | 'timeout';
+
+/**
+ * 限行时间段（24小时制，HH:MM格式）
+ */
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * 限行规则
+ */
+export interface RestrictionRule {
+  mode: RestrictionMode;
+  digits: number[];               // 限行尾号（单双号限行时为对应的奇数或偶数尾号，无法确定时为空）
+  parity?: OddEvenParity;         // 仅单双号限行时存在
+  timeWindows: TimeWindow[];      // 限行时间段，未知时为空
+  source: RestrictionSource;
+  confidence: RestrictionConfidence;
+  makeupWorkday?: boolean;        // 仅调休上班日按轮换规则计算的限行规则存在
+  error?: {
+    code: RestrictionErrorCode;
+    message: string;
+  };
+}
+
+/**
+ * 创建按尾号限行的规则
+ */
+export function createDigitsRule(
+  digits: number[],
+  options: { timeWindows?: TimeWindow[]; source: RestrictionSource; confidence: RestrictionConfidence }
+): RestrictionRule {
+  return {
+    mode: 'digits',
+    digits: digits.filter((digit, index) => digits.indexOf(digit) === index),
+    timeWindows: options.timeWindows || [],
+    source: options.source,
+    confidence: options.confidence
+  };
+}
+
+/**
+ * 创建单双号限行的规则
+ */
+export function createOddEvenRule(
+  parity: OddEvenParity,
+  options: { timeWindows?: TimeWindow[]; source: RestrictionSource; confidence: RestrictionConfidence }
+): RestrictionRule {
+  let digits: number[] = [];
+  if (parity === 'odd') {
+    digits = [1, 3, 5, 7, 9];
+  } else if (parity === 'even') {
+    digits = [0, 2, 4, 6, 8];
+  }
+
+  return {
+    mode: 'oddEven',
+    digits,
+    parity,
+    timeWindows: options.timeWindows || [],
+    source: options.source,
+    confidence: options.confidence
+  };
+}
+
+/**
+ * 创建不限行的规则
+ */
+export function createNoRestrictionRule(
+  options: { source: RestrictionSource; confidence: RestrictionConfidence }
+): RestrictionRule {
+  return {
+    mode: 'none',
+    digits: [],
+    timeWindows: [],
+    source: options.source,
+    confidence: options.confidence
+  };
+}
+
+/**
+ * 创建表示获取失败的规则
+ */
+export function createErrorRule(code: RestrictionErrorCode, message: string): RestrictionRule {
+  return {
+    mode: 'error',
+    digits: [],
+    timeWindows: [],
+    source: 'none',
+    confidence: 'low',
+    error: { code, message }
+  };
+}
+
+/**
+ * 解析尾号文本，如"4和9"、"1、6"
+ * @returns 尾号数组，没有数字时返回空数组
+ */
+export function parseDigitsText(text: string): number[] {
+  const digitMatches = text.match(/\d/g) || [];
+  return digitMatches
+    .map(digit => parseInt(digit, 10))
+    .filter((digit, index, digits) => digits.indexOf(digit) === index);
+}
+
+/**
+ * 解析限行时间段文本，如"7:00-20:00"、"7点至20点"
+ * @returns 时间段，无法解析时返回null
+ */
+export function parseTimeWindow(text: string): TimeWindow | null {
+  const match = text.match(/(\d{1,2})(?:[:：](\d{1,2}))?\s*[点时]?\s*[-–~至到]\s*(\d{1,2})(?:[:：](\d{1,2}))?/);
+  if (!match) {
+    return null;
+  }
+
+  const formatTime = (hours: string, minutes?: string) =>
+    `${hours.padStart(2, '0')}:${(minutes || '00').padStart(2, '0')}`;
+
+  return {
+    start: formatTime(match[1], match[2]),
+    end: formatTime(match[3], match[4])
+  };
+}
+
+/**
+ * 格式化限行时间段，如"7:00-20:00"
+ */
+export function formatTimeWindow(window: TimeWindow): string {
+  const trimHours = (time: string) => time.replace(/^0(\d)/, '$1');
+  return `${trimHours(window.start)}-${trimHours(window.end)}`;
+}
+
+/**
+ * 格式化限行规则，用于日志和详细显示，如"4和9 (7:00-20:00)"
+ */
+export function formatRestrictionRule(rule: RestrictionRule): string {
+  let text: string;
+  if (rule.mode === 'none') {
+    text = '不限行';
+  } else if (rule.mode === 'oddEven') {
+    text = rule.parity === 'odd' ? '单号限行' : rule.parity === 'even' ? '双号限行' : '单双号限行';
+  } else if (rule.mode === 'digits') {
+    text = rule.digits.join('和');
+  } else {
+    text = rule.error ? `获取失败: ${rule.error.message}` : '获取失败';
+  }
+
+  if (rule.mode !== 'none' && rule.mode !== 'error' && rule.timeWindows.length > 0) {
+    text = `${text} (${rule.timeWindows.map(formatTimeWindow).join(', ')})`;
+  }
+  return text;
+}
@@ -0,0 +1,49 @@
+// 尾号轮换计算模块
+// 按城市尾号轮换规则表计算任意日期在轮换顺序中对应的尾号组合，供离线规则引擎和节假日日历共用
+
+import { diffDays, getWeekdayIndex, parseDateKey } from './calendar'
+import { CITY_ROTATION_RULES } from './cityRules'
+import { TimeWindow } from './restriction'
+
+/**
+ * 某一天在轮换顺序中对应的尾号组合
+ */
+export interface RotationDigits {
+  digits: number[];
+  timeWindows: TimeWindow[];
+}
+
+/**
+ * 取非负余数
+ */
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/**
+ * 计算指定日期在轮换顺序中对应的尾号组合
+ * 周一到周五依次对应轮换顺序中的尾号组合；周六、周日按轮换顺序继续顺延（周六与周一相同、周日与周二相同），
+ * 只用于调休上班的周末，是否限行由调用方判断
+ * @param city 城市ID
+ * @param date 日期（支持任意过去或未来的日期）
+ * @returns 尾号组合和限行时间段，城市没有离线规则时返回null
+ */
+export function getRotationDigits(city: string, date: Date): RotationDigits | null {
+  const rotationRule = CITY_ROTATION_RULES[city];
+  const anchorDate = rotationRule ? parseDateKey(rotationRule.anchorDate) : null;
+  if (!rotationRule || !anchorDate) {
+    return null;
+  }
+
+  // 计算距离基准周期的周数和周期数，基准日期之前的日期同样适用
+  const daysSinceAnchor = diffDays(anchorDate, date);
+  const weeksSinceAnchor = Math.floor(daysSinceAnchor / 7);
+  const periods = rotationRule.periodWeeks > 0 ? Math.floor(weeksSinceAnchor / rotationRule.periodWeeks) : 0;
+
+  const mondayIndex = rotationRule.anchorIndex + periods * rotationRule.shiftPerPeriod;
+  const weekdayIndex = getWeekdayIndex(date);
+  return {
+    digits: rotationRule.sequence[mod(mondayIndex + weekdayIndex, rotationRule.sequence.length)],
+    timeWindows: rotationRule.timeWindows
+  };
+}
@@ -0,0 +1,102 @@
+// 离线限行规则引擎模块
+
+import { addDays, diffDays, getWeekDates, isWeekend, parseDateKey } from './calendar'
+import { getCityName } from './cityRegistry'
+import { CITY_ROTATION_RULES, CITY_WEEKEND_RULES, WEEK_DAYS } from './cityRules'
+import { applyHolidayCalendar } from './holiday'
+import { ProviderResult, RestrictionProvider } from './provider'
+import { createDigitsRule, createErrorRule, createNoRestrictionRule, RestrictionRule } from './restriction'
+import { getRotationDigits } from './rotation'
+
+/**
+ * 判断城市是否有离线规则
+ * @param city 城市ID
+ */
+export function hasOfflineRule(city: string): boolean {
+  return CITY_ROTATION_RULES[city] !== undefined;
+}
+
+/**
+ * 使用离线规则表计算指定城市指定日期的限行规则
+ * @param city 城市ID
+ * @param date 日期（支持任意过去或未来的日期）
+ * @returns 限行规则，城市没有离线规则时返回null
+ */
+export function getOfflineRestriction(city: string, date: Date): RestrictionRule | null {
+  const rotation = getRotationDigits(city, date);
+  if (!rotation) {
+    return null;
+  }
+
+  const options = { source: 'offlineRule' as const, confidence: 'medium' as const };
+
+  // 周末：如果城市在周末规则表中，则使用其配置；否则默认周末不限行
+  const isWeekendNoLimit = CITY_WEEKEND_RULES[city] !== undefined ? CITY_WEEKEND_RULES[city] : true;
+  if (isWeekend(date)) {
+    // 周末限行的城市没有可用的轮换数据
+    return isWeekendNoLimit ? applyHolidayCalendar(city, date, createNoRestrictionRule(options)) : null;
+  }
+
+  // 法定节假日和调休上班日按节假日日历调整
+  return applyHolidayCalendar(city, date, createDigitsRule(rotation.digits, { ...options, timeWindows: rotation.timeWindows }));
+}
+
+/**
+ * 获取指定日期之后下一次轮换限行尾号的日期
+ * @param city 城市ID
+ * @param date 日期
+ * @returns 下一个轮换周期开始的日期（周一），城市没有离线规则或不轮换时返回null
+ */
+export function getNextRotationDate(city: string, date: Date): Date | null {
+  const rotationRule = CITY_ROTATION_RULES[city];
+  const anchorDate = rotationRule ? parseDateKey(rotationRule.anchorDate) : null;
+  if (!rotationRule || !anchorDate || rotationRule.periodWeeks <= 0 || rotationRule.shiftPerPeriod === 0) {
+    return null;
+  }
+
+  const periodDays = rotationRule.periodWeeks * 7;
+  const periods = Math.floor(diffDays(anchorDate, date) / periodDays);
+  return addDays(anchorDate, (periods + 1) * periodDays);
+}
+
+/**
+ * 使用离线规则表计算指定日期所在一周（周一到周日）的限行规则
+ * @param city 城市ID
+ * @param date 一周中的任意日期
+ * @returns 一周限行规则（键为"周一"到"周日"），城市没有离线规则时返回空对象
+ */
+export function getOfflineWeeklyRestrictions(city: string, date: Date): Record<string, RestrictionRule> {
+  const weeklyRules: Record<string, RestrictionRule> = {};
+  if (!hasOfflineRule(city)) {
+    return weeklyRules;
+  }
+
+  // 本周一到周日的日期
+  const weekDates = getWeekDates(date);
+
+  WEEK_DAYS.forEach((day, index) => {
+    const rule = getOfflineRestriction(city, weekDates[index]);
+    if (rule) {
+      weeklyRules[day] = rule;
+    }
+  });
+
+  return weeklyRules;
+}
+
+/**
+ * 离线规则数据源：根据内置的轮换规则表计算限行信息，无需网络请求
+ */
+export const offlineProvider: RestrictionProvider = {
+  id: 'offline',
+  name: '离线规则',
+  // 离线数据源无需获取文档
+  fetch: async () => '',
+  parse(_document: string, city: string): ProviderResult {
+    const today = new Date();
+    return {
+      todayData: getOfflineRestriction(city, today) || createErrorRule('noData', `没有${getCityName(city)}的离线规则`),
+      weeklyData: getOfflineWeeklyRestrictions(city, today)
+    };
+  }
+};
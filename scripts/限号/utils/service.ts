@@ -1,206 +1,342 @@
 // 限号信息服务模块
 
-import { DEFAULT_CITY, getUserCity, WEEK_DAYS } from './city'
-import { CACHE_KEY_PREFIX, fetchLimitNumbersFromNetwork, fetchWeeklyLimitNumbersFromNetwork, CacheData } from './network'
+import { withTimeout } from './base'
+import {
+  CacheData,
+  CacheFreshness,
+  getCachedLimitData,
+  getCachedRule,
+  getLatestCachedRule,
+  getCacheFreshness,
+  isCacheFresh,
+  saveLimitData,
+  shouldRefreshCache
+} from './cache'
+import { formatDateKey, getWeekDates, getWeekdayIndex } from './calendar'
+import { DEFAULT_CITY, getUserCity } from './city'
+import { getCityName, resolveCityId } from './cityRegistry'
+import { WEEK_DAYS } from './cityRules'
+import { applyHolidayCalendar, getHolidayInfo, HolidayInfo } from './holiday'
+import { notifyCityChange, takePendingCityChange } from './locationChange'
+import { fetchFromProviders, RefreshResult, RefreshStats } from './provider'
+import { createErrorRule, formatRestrictionRule, RestrictionRule } from './restriction'
+import { getOfflineRestriction } from './rules'
+import { getGarage, getPlateTailDigit, getPrimaryVehicle, Vehicle } from './vehicle'
+
+/**
+ * 刷新时等待数据源的最长时间（毫秒），有可用的旧数据或离线规则时超过该时间先使用旧数据
+ */
+const STALE_REFRESH_BUDGET = 5000;
+
+/**
+ * 车牌限行判定结果
+ * restricted: 限行；notRestricted: 不限行；unknown: 无法判定（数据缺失或车牌无效）
+ */
+export type PlateVerdict = 'restricted' | 'notRestricted' | 'unknown';
+
+/**
+ * 车牌限行判定详情
+ */
+export interface PlateRestriction {
+  plate: string;
+  tailDigit: number | null;
+  verdict: PlateVerdict;
+}
+
+/**
+ * 某一天的限行信息
+ */
+export interface DayLimitInfo {
+  day: string;
+  dayIndex: number;
+  limitInfo: RestrictionRule;
+  isToday: boolean;
+  holiday: HolidayInfo | null;    // 法定节假日或调休上班日信息
+}
+
+/**
+ * 当天限行信息
+ */
+export interface LimitData {
+  city: string;
+  limitInfo: RestrictionRule;
+  vehicle: PlateRestriction | null;
+  holiday: HolidayInfo | null;
+  freshness: CacheFreshness;      // 数据是否为今天刷新成功的数据
+  refresh?: RefreshStats;         // 本次从数据源刷新的统计信息，使用缓存时不存在
+}
+
+/**
+ * 车库中单辆车的一周限行判定
+ */
+export interface VehicleWeeklyRestriction {
+  vehicle: Vehicle;
+  today: PlateRestriction;
+  week: PlateRestriction[];   // 与weeklyLimitInfo一一对应（周一到周日）
+}
+
+/**
+ * 一周限行信息
+ */
+export interface WeeklyLimitData {
+  city: string;
+  weeklyLimitInfo: DayLimitInfo[];
+  vehicle: PlateRestriction | null;
+  garage: VehicleWeeklyRestriction[];
+  freshness: CacheFreshness;
+  refresh?: RefreshStats;         // 本次从数据源刷新的统计信息，使用缓存时不存在
+}
+
+/**
+ * 查询限号信息的选项
+ */
+export interface LimitQueryOptions {
+  forceRefreshCity?: boolean;     // 是否强制刷新城市信息
+  forceRefresh?: boolean;         // 是否忽略缓存强制从数据源刷新
+  city?: string;                  // 指定查询的城市（城市ID、名称或别名），不指定时使用定位获取的城市
+}
+
+/**
+ * 根据限行规则判断指定车牌是否限行
+ * @param rule 限行规则
+ * @param plate 车牌号
+ * @returns 包含尾号和判定结果的对象
+ */
+export function getPlateRestriction(rule: RestrictionRule, plate: string): PlateRestriction {
+  const tailDigit = getPlateTailDigit(plate);
+
+  let verdict: PlateVerdict = 'unknown';
+  if (tailDigit !== null) {
+    if (rule.mode === 'none') {
+      verdict = 'notRestricted';
+    } else if (rule.mode === 'digits' || (rule.mode === 'oddEven' && rule.parity !== 'unknown')) {
+      verdict = rule.digits.includes(tailDigit) ? 'restricted' : 'notRestricted';
+    }
+  }
+
+  return { plate, tailDigit, verdict };
+}
+
+/**
+ * 获取指定日期的限行规则（不发送网络请求）：优先使用缓存中最近一次成功获取的数据，其次使用离线规则表
+ * @param city 城市ID
+ * @param date 日期
+ * @returns 按节假日日历调整后的限行规则
+ */
+export function getDayLimitRule(city: string, date: Date): RestrictionRule {
+  const cachedRule = getCachedRule(getCachedLimitData(city), date);
+  if (cachedRule) {
+    return applyHolidayCalendar(city, date, cachedRule);
+  }
+  // 离线规则已按节假日日历调整
+  return getOfflineRestriction(city, date) || createErrorRule('noData', `没有${formatDateKey(date)}的限行数据`);
+}
+
+/**
+ * 使用主车辆判断今日是否限行
+ * @param limitInfo 当天限行规则
+ * @returns 判定详情，车库为空时返回null
+ */
+function getVehicleRestriction(limitInfo: RestrictionRule): PlateRestriction | null {
+  const primaryVehicle = getPrimaryVehicle();
+  if (!primaryVehicle) {
+    return null;
+  }
+
+  const restriction = getPlateRestriction(limitInfo, primaryVehicle.plate);
+  console.log(`车牌${restriction.plate}（尾号${restriction.tailDigit}）今日判定结果: ${restriction.verdict}`);
+  return restriction;
+}
+
+/**
+ * 判断车库中每辆车在一周内每天的限行情况
+ * @param weeklyLimitInfo 一周限行信息（周一到周日）
+ * @returns 每辆车的一周判定结果
+ */
+function getGarageRestrictions(weeklyLimitInfo: DayLimitInfo[]): VehicleWeeklyRestriction[] {
+  return getGarage().map(vehicle => {
+    const week = weeklyLimitInfo.map(dayInfo => getPlateRestriction(dayInfo.limitInfo, vehicle.plate));
+    const todayIndex = weeklyLimitInfo.findIndex(dayInfo => dayInfo.isToday);
+    const today = todayIndex >= 0 ? week[todayIndex] : getPlateRestriction(createErrorRule('noData', '没有今天的数据'), vehicle.plate);
+    return { vehicle, today, week };
+  });
+}
 
 /**
  * 获取一周的限行信息
+ * 当天信息由getLimitNumbers获取（必要时刷新缓存），其他日期使用缓存中最近一次成功获取的数据
  * @param options 配置选项
  * @param options.forceRefreshCity 是否强制刷新城市信息
+ * @param options.forceRefresh 是否忽略缓存强制从数据源刷新
+ * @param options.city 指定查询的城市，不指定时使用定位获取的城市
  * @returns 包含城市和一周限行信息的对象
  */
-export async function getWeeklyLimitNumbers(options?: { forceRefreshCity?: boolean }): Promise<{
-  city: string;
-  weeklyLimitInfo: Array<{
-    day: string;
-    dayIndex: number;
-    limitInfo: string;
-    isToday: boolean;
-  }>;
-}> {
+export async function getWeeklyLimitNumbers(options?: LimitQueryOptions): Promise<WeeklyLimitData> {
   try {
-    const { forceRefreshCity = false } = options || {};
-    const city = await getUserCity({ forceRefresh: forceRefreshCity });
+    const limitData = await getLimitNumbers(options);
+    const { city, freshness } = limitData;
+    const cachedData = getCachedLimitData(city);
     const today = new Date();
-    const todayIndex = today.getDay();
-    const cacheKey = `${CACHE_KEY_PREFIX}${city}`;
+    const todayIndex = getWeekdayIndex(today);
+    const weekDates = getWeekDates(today);
     
     console.log(`开始获取${city}一周限行信息`);
     
-    // 直接从缓存获取数据，如果缓存不存在或过期，getLimitNumbers会从网络获取
-    let cachedData: CacheData | null = Storage.get<CacheData>(cacheKey);
-    if (cachedData) {
-      console.log('成功获取缓存数据');
-    } else {
-      console.log('缓存数据不存在或无法获取');
-    }
-    
-    // 如果缓存不存在或已过期，调用getLimitNumbers获取最新数据
-    // 这会同时更新当天和一周的限行信息并缓存
-    const todayDate = new Date().toISOString().split('T')[0];
-    if (!cachedData || cachedData.date !== todayDate) {
-      console.log(`缓存不存在或已过期，调用getLimitNumbers获取最新数据`);
-      // 注意：这里我们不直接使用getLimitNumbers的返回值，
-      // 因为它只返回当天数据，但它已经在内部更新了缓存
-      await getLimitNumbers({ forceRefreshCity });
-      // 重新从缓存获取更新后的数据
-      cachedData = Storage.get<CacheData>(cacheKey);
-      if (cachedData) {
-        console.log('成功获取更新后的缓存数据');
-      } else {
-        console.log('更新后的缓存数据不存在或无法获取');
-      }
-    } else {
-      console.log(`从缓存获取${city}一周限行信息`);
-    }
-    
-    // 打印缓存状态信息便于调试
-    if (cachedData) {
-      console.log(`缓存状态 - 日期: ${cachedData.date}, 当天数据: ${cachedData.todayData}, 一周数据: ${cachedData.weeklyData ? Object.keys(cachedData.weeklyData).length + '天' : '无'}`);
-    } else {
-      console.log(`缓存仍然为空，可能获取数据失败`);
-    }
-    
-    // 初始化一周的限行信息数组
-    const weeklyLimitInfo = WEEK_DAYS.map((day, index) => {
-      // 明确的日期转换逻辑
-      let weekDayIndex: number;
-      if (todayIndex === 0) {  // 今天是周日
-        weekDayIndex = 6;  // 对应WEEK_DAYS[6] = '周日'
-      } else if (todayIndex === 1) {  // 今天是周一
-        weekDayIndex = 0;  // 对应WEEK_DAYS[0] = '周一'
-      } else if (todayIndex === 2) {  // 今天是周二
-        weekDayIndex = 1;  // 对应WEEK_DAYS[1] = '周二'
-      } else if (todayIndex === 3) {  // 今天是周三
-        weekDayIndex = 2;  // 对应WEEK_DAYS[2] = '周三'
-      } else if (todayIndex === 4) {  // 今天是周四
-        weekDayIndex = 3;  // 对应WEEK_DAYS[3] = '周四'
-      } else if (todayIndex === 5) {  // 今天是周五
-        weekDayIndex = 4;  // 对应WEEK_DAYS[4] = '周五'
-      } else {  // 今天是周六 (todayIndex === 6)
-        weekDayIndex = 5;  // 对应WEEK_DAYS[5] = '周六'
-      }
-      
-      // 获取限行信息的逻辑
-      let limitInfo = '暂无信息';
+    // 初始化一周的限行信息数组（本周一到周日）
+    const weeklyLimitInfo: DayLimitInfo[] = WEEK_DAYS.map((day, index) => {
+      const date = weekDates[index];
+      const isToday = index === todayIndex;
+      const holiday = getHolidayInfo(date);
       
-      // 首先尝试从缓存中获取数据
-      if (cachedData) {
-        // 今天的数据优先使用todayData
-        if (index === weekDayIndex && cachedData.todayData) {
-          limitInfo = cachedData.todayData;
-          console.log(`使用当天缓存数据 - ${day}: ${limitInfo}`);
-        }
-        // 非今天的数据从weeklyData获取
-        else if (cachedData.weeklyData && cachedData.weeklyData[day]) {
-          limitInfo = cachedData.weeklyData[day];
-          console.log(`使用一周缓存数据 - ${day}: ${limitInfo}`);
-        }
+      // 今天使用getLimitNumbers的结果（已按节假日调整），其他日期使用缓存中该日期最近一次成功获取的数据
+      let limitInfo: RestrictionRule;
+      if (isToday) {
+        limitInfo = limitData.limitInfo;
+      } else {
+        const cachedRule = getCachedRule(cachedData, date);
+        // 按节假日日历调整，节假日不再显示按星期推算的尾号
+        limitInfo = applyHolidayCalendar(city, date, cachedRule || createErrorRule('noData', `没有${day}的限行数据`));
       }
       
       return {
           day,
           dayIndex: index,
           limitInfo,
-          isToday: index === weekDayIndex
+          isToday,
+          holiday
         };
     });
     
     // 输出最终确定的一周限行信息
     console.log(`\n===== 最终确定的一周限行信息 =====`);
     weeklyLimitInfo.forEach(item => {
-      console.log(`${item.day}${item.isToday ? ' (今天)' : ''}: ${item.limitInfo}`);
+      console.log(`${item.day}${item.isToday ? ' (今天)' : ''}: ${formatRestrictionRule(item.limitInfo)}`);
     });
     console.log(`================================`);
     
-    return { city, weeklyLimitInfo };
+    // 车库中每辆车的一周判定，复用缓存中的一周数据
+    const garage = getGarageRestrictions(weeklyLimitInfo);
+    
+    return { city, weeklyLimitInfo, vehicle: limitData.vehicle, garage, freshness, refresh: limitData.refresh };
 
   } catch (e) {
     console.error('获取一周限行信息失败:', e);
     
     // 返回错误数据
-    const today = new Date();
-    const todayIndex = today.getDay();
-    // 明确的日期转换逻辑
-    let weekDayIndex: number;
-    if (todayIndex === 0) {  // 今天是周日
-      weekDayIndex = 6;  // 对应WEEK_DAYS[6] = '周日'
-    } else if (todayIndex === 1) {  // 今天是周一
-      weekDayIndex = 0;  // 对应WEEK_DAYS[0] = '周一'
-    } else if (todayIndex === 2) {  // 今天是周二
-      weekDayIndex = 1;  // 对应WEEK_DAYS[1] = '周二'
-    } else if (todayIndex === 3) {  // 今天是周三
-      weekDayIndex = 2;  // 对应WEEK_DAYS[2] = '周三'
-    } else if (todayIndex === 4) {  // 今天是周四
-      weekDayIndex = 3;  // 对应WEEK_DAYS[3] = '周四'
-    } else if (todayIndex === 5) {  // 今天是周五
-      weekDayIndex = 4;  // 对应WEEK_DAYS[4] = '周五'
-    } else {  // 今天是周六 (todayIndex === 6)
-      weekDayIndex = 5;  // 对应WEEK_DAYS[5] = '周六'
-    }
+    const todayIndex = getWeekdayIndex(new Date());
+    const errorRule = createErrorRule('network', e instanceof Error ? e.message : '未知错误');
+    const weeklyLimitInfo: DayLimitInfo[] = WEEK_DAYS.map((day, index) => ({
+      day,
+      dayIndex: index,
+      limitInfo: errorRule,
+      isToday: index === todayIndex,
+      holiday: null
+    }));
     
     return {
       city: DEFAULT_CITY,
-      weeklyLimitInfo: WEEK_DAYS.map((day, index) => ({
-        day,
-        dayIndex: index,
-        limitInfo: '获取失败',
-        isToday: index === weekDayIndex
-      }))
+      weeklyLimitInfo,
+      vehicle: getVehicleRestriction(errorRule),
+      garage: getGarageRestrictions(weeklyLimitInfo),
+      freshness: getCacheFreshness(null)
     };
   }
 }
 
 /**
- * 获取限号信息（带缓存功能，仅在新的一天开始时重新获取）
+ * 获取今天尚未刷新成功时临时使用的限行规则（不发送网络请求）
+ * 依次使用缓存中今天的数据、离线规则表、缓存中最近一个相同星期几的数据
+ * @param city 城市ID
+ * @param cachedData 缓存数据
+ * @param now 当前时间
+ * @returns 限行规则，都没有时返回null
+ */
+function getStaleFallbackRule(city: string, cachedData: CacheData | null, now: Date): RestrictionRule | null {
+  return getCachedRule(cachedData, now) || getOfflineRestriction(city, now) || getLatestCachedRule(cachedData, now);
+}
+
+/**
+ * 使用数据源链刷新限号信息并写入缓存
+ * @param city 城市ID
+ * @param now 刷新时间
+ */
+async function refreshLimitData(city: string, now: Date): Promise<RefreshResult> {
+  const result = await fetchFromProviders(city);
+  saveLimitData(city, result, now);
+  return result;
+}
+
+/**
+ * 获取限号信息（带缓存功能）
+ * 今天已刷新成功时直接使用缓存；否则按退避时间刷新，刷新失败或超时时使用最近一次成功获取的数据或离线规则
  * @param options 配置选项
+ * @param options.forceRefreshCity 是否强制刷新城市信息
+ * @param options.forceRefresh 是否忽略缓存和退避时间强制从数据源刷新
+ * @param options.city 指定查询的城市，不指定时使用定位获取的城市
  * @returns 包含城市和限号信息的对象
  */
-export async function getLimitNumbers(options?: { forceRefreshCity?: boolean }): Promise<{city: string, limitInfo: string}> {
+export async function getLimitNumbers(options?: LimitQueryOptions): Promise<LimitData> {
   try {
-    const { forceRefreshCity = false } = options || {};
-    const city = await getUserCity({ forceRefresh: forceRefreshCity });
-    const cacheKey = `${CACHE_KEY_PREFIX}${city}`;
-    const todayDate = new Date().toISOString().split('T')[0];
+    const { forceRefreshCity = false, forceRefresh = false } = options || {};
+    const city = options?.city ? resolveCityId(options.city) : await getUserCity({ forceRefresh: forceRefreshCity });
+    const now = new Date();
     
-    // 尝试从缓存获取限号信息
-    const cachedData: CacheData | null = Storage.get<CacheData>(cacheKey);
-    if (cachedData && cachedData.date === todayDate && cachedData.todayData) {
-      console.log(`从缓存获取${city}限号信息`);
-      return { city, limitInfo: cachedData.todayData };
+    // 定位到的城市发生变化时，按新城市的缓存状态刷新数据，获取到限行信息后通知用户
+    const cityChange = options?.city ? null : takePendingCityChange();
+    if (cityChange && cityChange.to !== city) {
+      console.log(`忽略与当前城市不符的城市变化: ${cityChange.from} -> ${cityChange.to}`);
     }
     
-    // 缓存不存在或已过期，从网络获取限号信息
-    console.log(`===== 每天第一次获取：从百度搜索结果获取${city}限号信息 =====`);
-    const result = await fetchLimitNumbersFromNetwork(city);
-    const { todayData: limitInfo, weeklyData } = result;
-    
-    // 保存到缓存 - 现在网络请求已经在内部处理了缓存，这里只做额外的确认
-    if (limitInfo && limitInfo !== '获取限号信息失败') {
-      // 直接使用network.ts中已处理好的缓存
-      console.log(`已缓存${city}当天和一周限号信息`);
+    let cachedData: CacheData | null = getCachedLimitData(city);
+    // 今天尚未刷新成功时的旧数据（今天的缓存、离线规则或上周同一天的缓存），强制刷新时不使用
+    const staleRule = forceRefresh ? null : getStaleFallbackRule(city, cachedData, now);
+    let refresh: RefreshStats | undefined;
+    if (forceRefresh || shouldRefreshCache(cachedData, now)) {
+      console.log(`===== 按数据源链刷新${city}限号信息 =====`);
+      const refreshPromise = refreshLimitData(city, now);
+      // 有旧数据时不等待过慢的刷新，先使用旧数据；刷新完成后仍会写入缓存。强制刷新时等待刷新完成
+      const refreshResult = staleRule
+        ? await withTimeout(refreshPromise, STALE_REFRESH_BUDGET, null)
+        : await refreshPromise;
+      
+      if (refreshResult) {
+        refresh = refreshResult.stats;
+        cachedData = getCachedLimitData(city);
+        console.log(`本次刷新: 数据源${refresh.providerId || '无'}，尝试${refresh.attempts}个数据源，请求${refresh.requestCount}次，耗时${refresh.latencyMs}ms`);
+      } else {
+        console.log(`刷新未在${STALE_REFRESH_BUDGET}ms内完成，先使用上次成功获取的数据`);
+      }
+    } else if (isCacheFresh(cachedData, now)) {
+      console.log(`从缓存获取${city}限号信息`);
+    } else {
+      console.log(`${city}刷新失败后等待重试，使用上次成功获取的数据`);
     }
     
+    // 今天没有成功获取的数据时使用旧数据（freshness.stale为true）；都没有时返回最近一次刷新失败的原因
+    const lastError = cachedData ? cachedData.lastError : null;
+    const rule = getCachedRule(cachedData, now)
+      || staleRule
+      || (lastError ? createErrorRule(lastError.code, lastError.message) : createErrorRule('noData', `没有${getCityName(city)}今天的限号信息`));
+    const limitInfo = applyHolidayCalendar(city, now, rule);
+    const freshness = getCacheFreshness(cachedData, now);
+    
     // 输出当天限号信息日志
     console.log(`\n===== 当天限号信息 =====`);
-    console.log(`日期: ${new Date().toLocaleDateString()}`);
+    console.log(`日期: ${formatDateKey(now)}`);
     console.log(`城市: ${city}`);
-    console.log(`限号信息: ${limitInfo}`);
+    console.log(`限号信息: ${formatRestrictionRule(limitInfo)}${freshness.stale ? '（旧数据）' : ''}`);
     console.log(`====================`);
     
-    // 如果获取到了一周限行信息，额外输出一周信息日志
-    if (Object.keys(weeklyData).length > 0) {
-      console.log(`\n===== 一周限行信息 =====`);
-      for (const [day, info] of Object.entries(weeklyData)) {
-        console.log(`${day}: ${info}`);
-      }
-      console.log(`====================`);
+    if (cityChange && cityChange.to === city) {
+      await notifyCityChange(cityChange, limitInfo);
     }
     
-    return { city, limitInfo };
+    return { city, limitInfo, vehicle: getVehicleRestriction(limitInfo), holiday: getHolidayInfo(now), freshness, refresh };
 
   } catch (e) {
     console.error('获取限号信息失败:', e);
-    return { city: DEFAULT_CITY, limitInfo: '获取限号信息失败' };
+    const errorRule = createErrorRule('network', e instanceof Error ? e.message : '未知错误');
+    const city = options?.city ? resolveCityId(options.city) : DEFAULT_CITY;
+    return { city, limitInfo: errorRule, vehicle: getVehicleRestriction(errorRule), holiday: null, freshness: getCacheFreshness(null) };
   }
 }
@@ -0,0 +1,174 @@
+// 小组件主题模块
+// 定义小组件视图使用的配色和字号，用户可在App中选择主题：
+// 跟随系统（使用系统语义颜色，自动适配浅色、深色和锁屏着色模式）、Kindle墨水屏、高对比度
+
+import { Color } from 'scripting'
+
+/**
+ * 主题设置缓存键
+ */
+export const WIDGET_THEME_KEY = 'widgetTheme';
+
+/**
+ * 主题ID
+ * system: 跟随系统浅色/深色；kindle: 米白背景、黑灰文字的墨水屏风格；highContrast: 黑底白字、加粗字体
+ */
+export type ThemeId = 'system' | 'kindle' | 'highContrast';
+
+/**
+ * 主题配色
+ */
+export interface ThemePalette {
+  background: Color;                // 小号小组件背景
+  surface: Color;                   // 中号、大号小组件背景
+  primary: Color;                   // 主要文字，如限号数字
+  text: Color;                      // 正文
+  secondary: Color;                 // 标题、说明文字
+  tertiary: Color;                  // 城市、日期范围等辅助文字
+  quaternary: Color;                // 更新时间等最弱的文字
+  accent: Color;                    // 今天
+  restricted: Color;                // 本车限行
+  allowed: Color;                   // 本车可行、节假日
+  unknown: Color;                   // 无法判断
+  stale: Color;                     // 数据过期
+  error: Color;                     // 错误
+  restrictedDayBackground: Color;   // 月历中本车限行日期的背景
+  accessoryBackground: Color;       // 锁屏圆形小组件背景
+  accessoryForeground: Color;       // 锁屏圆形小组件文字
+}
+
+/**
+ * 主题字号（单位为pt，文字样式如caption仍由视图指定）
+ */
+export interface ThemeTypography {
+  hero: number;                     // 小号小组件的限号数字
+  verdict: number;                  // 小号小组件的本车判定
+  circular: number;                 // 圆形小组件的限号数字
+  circularText: number;             // 圆形小组件的"不限"等文字
+  circularVerdict: number;          // 圆形小组件的本车判定
+  circularDetail: number;           // 圆形小组件的辅助信息
+  calendarDetail: number;           // 月历中每天的限行尾号
+  emphasisWeight: 'semibold' | 'bold' | 'heavy';    // 突出显示的文字粗细
+}
+
+/**
+ * 小组件主题
+ */
+export interface WidgetTheme {
+  id: ThemeId;
+  name: string;
+  colors: ThemePalette;
+  fonts: ThemeTypography;
+}
+
+/**
+ * 默认字号
+ */
+const DEFAULT_TYPOGRAPHY: ThemeTypography = {
+  hero: 60,
+  verdict: 36,
+  circular: 24,
+  circularText: 18,
+  circularVerdict: 16,
+  circularDetail: 10,
+  calendarDetail: 9,
+  emphasisWeight: 'bold'
+};
+
+/**
+ * 所有主题
+ */
+export const WIDGET_THEMES: Record<ThemeId, WidgetTheme> = {
+  system: {
+    id: 'system',
+    name: '跟随系统',
+    colors: {
+      background: 'systemBackground',
+      surface: 'systemBackground',
+      primary: 'label',
+      text: 'label',
+      secondary: 'secondaryLabel',
+      tertiary: 'secondaryLabel',
+      quaternary: 'tertiaryLabel',
+      accent: 'systemBlue',
+      restricted: 'systemRed',
+      allowed: 'systemGreen',
+      unknown: 'tertiaryLabel',
+      stale: 'systemOrange',
+      error: 'systemRed',
+      restrictedDayBackground: 'tertiarySystemFill',
+      accessoryBackground: 'tertiarySystemFill',
+      accessoryForeground: 'label'
+    },
+    fonts: DEFAULT_TYPOGRAPHY
+  },
+  kindle: {
+    id: 'kindle',
+    name: 'Kindle墨水屏',
+    colors: {
+      background: '#f5f5f5',
+      surface: '#ffffff',
+      primary: '#000000',
+      text: '#333333',
+      secondary: '#707070',
+      tertiary: '#909090',
+      quaternary: '#999999',
+      accent: '#007AFF',
+      restricted: '#FF3B30',
+      allowed: '#34C759',
+      unknown: '#999999',
+      stale: '#FF9500',
+      error: '#ff0000',
+      restrictedDayBackground: '#FFE5E3',
+      accessoryBackground: '#ffffff',
+      accessoryForeground: '#000000'
+    },
+    fonts: DEFAULT_TYPOGRAPHY
+  },
+  highContrast: {
+    id: 'highContrast',
+    name: '高对比度',
+    colors: {
+      background: '#000000',
+      surface: '#000000',
+      primary: '#ffffff',
+      text: '#ffffff',
+      secondary: '#ffffff',
+      tertiary: '#e0e0e0',
+      quaternary: '#e0e0e0',
+      accent: '#ffd60a',
+      restricted: '#ff453a',
+      allowed: '#30d158',
+      unknown: '#e0e0e0',
+      stale: '#ff9f0a',
+      error: '#ff453a',
+      restrictedDayBackground: '#5c1a16',
+      accessoryBackground: '#000000',
+      accessoryForeground: '#ffffff'
+    },
+    fonts: { ...DEFAULT_TYPOGRAPHY, calendarDetail: 10, emphasisWeight: 'heavy' }
+  }
+};
+
+/**
+ * 获取用户选择的主题ID，默认跟随系统
+ */
+export function getThemeId(): ThemeId {
+  const themeId = Storage.get<ThemeId>(WIDGET_THEME_KEY);
+  return themeId && WIDGET_THEMES[themeId] ? themeId : 'system';
+}
+
+/**
+ * 保存用户选择的主题，小组件下次刷新时生效
+ * @param themeId 主题ID
+ */
+export function saveThemeId(themeId: ThemeId): void {
+  Storage.set<ThemeId>(WIDGET_THEME_KEY, themeId);
+}
+
+/**
+ * 获取当前使用的主题
+ */
+export function getWidgetTheme(): WidgetTheme {
+  return WIDGET_THEMES[getThemeId()];
+}
@@ -0,0 +1,118 @@
+// 限行时间段模块
+// 根据限行规则中的时间段计算当前所处的状态（未开始、限行中、已结束）和状态变化的时刻
+
+import { startOfDay } from './calendar'
+import { getMessages } from './i18n'
+import { formatTimeWindow, RestrictionRule, TimeWindow } from './restriction'
+
+/**
+ * 限行时间段状态
+ * none: 当天不限行或没有数据；unknown: 限行但时间段未知；
+ * upcoming: 限行尚未开始；active: 限行中；ended: 当天限行已结束
+ */
+export type TimeWindowState = 'none' | 'unknown' | 'upcoming' | 'active' | 'ended';
+
+/**
+ * 限行时间段状态详情
+ */
+export interface TimeWindowStatus {
+  state: TimeWindowState;
+  window: TimeWindow | null;    // 当前所在或下一个时间段，已结束时为最后一个时间段
+  startsAt: Date | null;        // window的开始时刻
+  endsAt: Date | null;          // window的结束时刻
+}
+
+/**
+ * 将HH:MM转换为从零点起的分钟数
+ */
+function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * 计算时间段在指定日期的开始和结束时刻（北京时间），结束时间早于开始时间时视为跨越零点
+ * @param window 限行时间段
+ * @param date 日期
+ */
+export function getWindowTimes(window: TimeWindow, date: Date): { start: Date; end: Date } {
+  const dayStart = startOfDay(date);
+  const startMinutes = parseMinutes(window.start);
+  let endMinutes = parseMinutes(window.end);
+  if (endMinutes <= startMinutes) {
+    endMinutes += 24 * 60;
+  }
+  return {
+    start: new Date(dayStart.getTime() + startMinutes * 60 * 1000),
+    end: new Date(dayStart.getTime() + endMinutes * 60 * 1000)
+  };
+}
+
+/**
+ * 判断规则是否限行（按尾号或单双号）
+ */
+function isRestricting(rule: RestrictionRule): boolean {
+  return rule.mode === 'digits' || rule.mode === 'oddEven';
+}
+
+/**
+ * 获取当天限行时间段的状态
+ * @param rule 当天的限行规则
+ * @param now 当前时间
+ */
+export function getTimeWindowStatus(rule: RestrictionRule, now: Date = new Date()): TimeWindowStatus {
+  if (!isRestricting(rule)) {
+    return { state: 'none', window: null, startsAt: null, endsAt: null };
+  }
+  if (rule.timeWindows.length === 0) {
+    return { state: 'unknown', window: null, startsAt: null, endsAt: null };
+  }
+
+  const windows = rule.timeWindows
+    .map(window => ({ window, ...getWindowTimes(window, now) }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  for (const { window, start, end } of windows) {
+    if (now < start) {
+      return { state: 'upcoming', window, startsAt: start, endsAt: end };
+    }
+    if (now < end) {
+      return { state: 'active', window, startsAt: start, endsAt: end };
+    }
+  }
+
+  const last = windows[windows.length - 1];
+  return { state: 'ended', window: last.window, startsAt: last.start, endsAt: last.end };
+}
+
+/**
+ * 格式化剩余时间，1小时以上按小时显示，如"3 小时"、"45 分钟"
+ */
+function formatRemaining(milliseconds: number): string {
+  const messages = getMessages();
+  const minutes = Math.ceil(milliseconds / (60 * 1000));
+  if (minutes >= 60) {
+    return messages.hours(Math.round(minutes / 60));
+  }
+  return messages.minutes(minutes);
+}
+
+/**
+ * 格式化限行时间段状态，如"限行中，还剩 3 小时"、"今日限行已结束"、"7:00 开始"
+ * @param status 限行时间段状态
+ * @param now 当前时间
+ * @returns 状态文本，不限行或时间段未知时返回空字符串
+ */
+export function formatTimeWindowStatus(status: TimeWindowStatus, now: Date = new Date()): string {
+  const messages = getMessages();
+  if (status.state === 'active' && status.endsAt) {
+    return messages.windowActive(formatRemaining(status.endsAt.getTime() - now.getTime()));
+  }
+  if (status.state === 'upcoming' && status.window) {
+    return messages.windowUpcoming(formatTimeWindow(status.window).split('-')[0]);
+  }
+  if (status.state === 'ended') {
+    return messages.windowEnded;
+  }
+  return '';
+}
@@ -0,0 +1,132 @@
+// 小组件时间线模块
+// 一次刷新后计算未来24-48小时内的各个状态（限行开始前、限行中、限行结束后、次日零点起），
+// 小组件按当前时刻选取对应的状态显示，并在下一个状态开始时刷新
+
+import { addDays, diffDays, formatDateKey, formatTime, startOfDay } from './calendar'
+import { getHolidayInfo, HolidayInfo } from './holiday'
+import { formatRestrictionRule, RestrictionRule } from './restriction'
+import { getDayLimitRule, getPlateRestriction, PlateRestriction } from './service'
+import { getTimeWindowStatus, getWindowTimes, TimeWindowState } from './timeWindow'
+import { getPrimaryVehicle } from './vehicle'
+
+/**
+ * 时间线默认覆盖的小时数
+ */
+const TIMELINE_HOURS = 48;
+
+/**
+ * 时间线中的一个状态，从startsAt开始直到下一个状态开始
+ */
+export interface TimelineEntry {
+  startsAt: Date;                     // 状态开始的时刻
+  date: Date;                         // 状态所属的日期（北京时间零点）
+  limitInfo: RestrictionRule;         // 该日期的限行规则（已按节假日调整）
+  state: TimeWindowState;             // 限行时间段状态
+  vehicle: PlateRestriction | null;   // 主车辆的限行判定，车库为空时为null
+  holiday: HolidayInfo | null;
+}
+
+/**
+ * 小组件时间线
+ */
+export interface LimitTimeline {
+  city: string;
+  entries: TimelineEntry[];   // 按时间先后排序，第一个状态包含构建时刻
+  builtAt: Date;
+}
+
+/**
+ * 获取某一天内限行状态发生变化的时刻：当天零点以及各限行时间段的开始和结束
+ * 跨越零点的时间段在次日的部分由次日零点的状态接替
+ * @param rule 当天的限行规则
+ * @param date 日期
+ */
+function getDayTransitions(rule: RestrictionRule, date: Date): Date[] {
+  const dayStart = startOfDay(date);
+  const nextDayStart = addDays(dayStart, 1);
+  const times = [dayStart];
+  if (rule.mode === 'digits' || rule.mode === 'oddEven') {
+    for (const window of rule.timeWindows) {
+      const { start, end } = getWindowTimes(window, dayStart);
+      times.push(start, end);
+    }
+  }
+  return times.filter(time => time >= dayStart && time < nextDayStart);
+}
+
+/**
+ * 构建小组件时间线，不发送网络请求：今天使用已获取的规则，之后的日期使用缓存或离线规则
+ * @param city 城市ID
+ * @param todayRule 今天的限行规则（已按节假日调整）
+ * @param now 构建时刻
+ * @param hours 覆盖的小时数
+ */
+export function buildLimitTimeline(
+  city: string,
+  todayRule: RestrictionRule,
+  now: Date = new Date(),
+  hours: number = TIMELINE_HOURS
+): LimitTimeline {
+  const today = startOfDay(now);
+  const until = new Date(now.getTime() + hours * 60 * 60 * 1000);
+  const primaryVehicle = getPrimaryVehicle();
+  const entries: TimelineEntry[] = [];
+
+  for (let offset = 0; offset <= diffDays(today, until); offset++) {
+    const date = addDays(today, offset);
+    const limitInfo = offset === 0 ? todayRule : getDayLimitRule(city, date);
+    const vehicle = primaryVehicle ? getPlateRestriction(limitInfo, primaryVehicle.plate) : null;
+    const holiday = getHolidayInfo(date);
+
+    for (const startsAt of getDayTransitions(limitInfo, date)) {
+      // 同一时刻只保留一个状态（如限行从零点开始）
+      if (entries.length > 0 && entries[entries.length - 1].startsAt.getTime() === startsAt.getTime()) {
+        entries.pop();
+      }
+      entries.push({ startsAt, date, limitInfo, state: getTimeWindowStatus(limitInfo, startsAt).state, vehicle, holiday });
+    }
+  }
+
+  // 去掉已经被当前状态取代的过去状态和超出范围的状态
+  const nextIndex = entries.findIndex(entry => entry.startsAt > now);
+  const currentIndex = Math.max((nextIndex >= 0 ? nextIndex : entries.length) - 1, 0);
+  const timeline = {
+    city,
+    entries: entries.slice(currentIndex).filter(entry => entry.startsAt <= until),
+    builtAt: now
+  };
+
+  console.log(`时间线（${city}）:`);
+  timeline.entries.forEach(entry => {
+    console.log(`  ${formatDateKey(entry.startsAt)} ${formatTime(entry.startsAt)} 起 ${entry.state}: ${formatRestrictionRule(entry.limitInfo)}`);
+  });
+  return timeline;
+}
+
+/**
+ * 获取时间线中指定时刻所处的状态
+ * @param timeline 时间线
+ * @param now 时刻
+ * @returns 开始时刻不晚于now的最后一个状态，now早于时间线时返回第一个状态
+ */
+export function getTimelineEntry(timeline: LimitTimeline, now: Date = new Date()): TimelineEntry {
+  let current = timeline.entries[0];
+  for (const entry of timeline.entries) {
+    if (entry.startsAt > now) {
+      break;
+    }
+    current = entry;
+  }
+  return current;
+}
+
+/**
+ * 获取时间线中下一个状态开始的时刻
+ * @param timeline 时间线
+ * @param now 时刻
+ * @returns 下一个状态的开始时刻，时间线已结束时返回null
+ */
+export function getNextTimelineDate(timeline: LimitTimeline, now: Date = new Date()): Date | null {
+  const next = timeline.entries.find(entry => entry.startsAt > now);
+  return next ? next.startsAt : null;
+}
@@ -0,0 +1,139 @@
+// 车辆信息模块
+
+/**
+ * 车库缓存键
+ */
+export const VEHICLE_GARAGE_KEY = 'vehicleGarage';
+
+/**
+ * 旧版单车辆信息缓存键，仅用于迁移到车库
+ */
+const LEGACY_VEHICLE_PROFILE_KEY = 'vehicleProfile';
+
+/**
+ * 车辆信息数据结构
+ */
+export interface Vehicle {
+  id: string;             // 车辆唯一标识
+  nickname: string;       // 车辆昵称，如"家用车"
+  plate: string;          // 车牌号（已规范化，如"京A12345"）
+  updatedAt: number;      // 更新时间戳
+}
+
+/**
+ * 规范化车牌号：去除空格、分隔符并转为大写
+ * @param plate 用户输入的车牌号
+ * @returns 规范化后的车牌号
+ */
+export function normalizePlate(plate: string): string {
+  return plate.replace(/[\s·•\.\-_]/g, '').toUpperCase();
+}
+
+/**
+ * 获取车牌尾号
+ * 按照多数城市的规定，尾号为英文字母的按0号管理
+ * @param plate 车牌号
+ * @returns 尾号数字（0-9），无法识别时返回null
+ */
+export function getPlateTailDigit(plate: string): number | null {
+  const normalized = normalizePlate(plate);
+  if (!normalized) {
+    return null;
+  }
+
+  const lastChar = normalized[normalized.length - 1];
+  if (/\d/.test(lastChar)) {
+    return parseInt(lastChar, 10);
+  }
+
+  if (/[A-Z]/.test(lastChar)) {
+    return 0;
+  }
+
+  return null;
+}
+
+/**
+ * 隐藏车牌号中间部分，用于通知等可能被他人看到的场合
+ * @param plate 车牌号
+ * @returns 如"京A·xxxx6"
+ */
+export function maskPlate(plate: string): string {
+  const normalized = normalizePlate(plate);
+  if (normalized.length <= 3) {
+    return normalized;
+  }
+  return `${normalized.slice(0, 2)}·${'x'.repeat(normalized.length - 3)}${normalized.slice(-1)}`;
+}
+
+/**
+ * 获取车库中的所有车辆
+ * 首次调用时会把旧版的单车辆信息迁移到车库
+ * @returns 车辆列表，第一辆为主车辆
+ */
+export function getGarage(): Vehicle[] {
+  const garage = Storage.get<Vehicle[]>(VEHICLE_GARAGE_KEY);
+  if (garage) {
+    return garage;
+  }
+
+  // 迁移旧版单车辆信息
+  const legacyProfile = Storage.get<{ plate: string; updatedAt: number }>(LEGACY_VEHICLE_PROFILE_KEY);
+  if (legacyProfile && legacyProfile.plate) {
+    const migrated: Vehicle[] = [{
+      id: `${legacyProfile.updatedAt}`,
+      nickname: '我的车',
+      plate: legacyProfile.plate,
+      updatedAt: legacyProfile.updatedAt
+    }];
+    Storage.set<Vehicle[]>(VEHICLE_GARAGE_KEY, migrated);
+    Storage.remove(LEGACY_VEHICLE_PROFILE_KEY);
+    console.log(`已将车辆信息迁移到车库: ${legacyProfile.plate}`);
+    return migrated;
+  }
+
+  return [];
+}
+
+/**
+ * 获取主车辆（车库中的第一辆车）
+ * @returns 主车辆，车库为空时返回null
+ */
+export function getPrimaryVehicle(): Vehicle | null {
+  const garage = getGarage();
+  return garage.length > 0 ? garage[0] : null;
+}
+
+/**
+ * 向车库添加车辆
+ * @param nickname 车辆昵称
+ * @param plate 车牌号
+ * @returns 添加的车辆，车牌号无效时返回null
+ */
+export function addVehicle(nickname: string, plate: string): Vehicle | null {
+  const normalized = normalizePlate(plate);
+  if (!normalized) {
+    return null;
+  }
+
+  const garage = getGarage();
+  const vehicle: Vehicle = {
+    id: `${Date.now()}`,
+    nickname: nickname.trim() || `车辆${garage.length + 1}`,
+    plate: normalized,
+    updatedAt: Date.now()
+  };
+  Storage.set<Vehicle[]>(VEHICLE_GARAGE_KEY, [...garage, vehicle]);
+  console.log(`已添加车辆: ${vehicle.nickname}（${vehicle.plate}）`);
+  return vehicle;
+}
+
+/**
+ * 从车库移除车辆
+ * @param id 车辆唯一标识
+ */
+export function removeVehicle(id: string): void {
+  const garage = getGarage().filter(vehicle => vehicle.id !== id);
+  Storage.set<Vehicle[]>(VEHICLE_GARAGE_KEY, garage);
+  console.log(`已移除车辆: ${id}`);
+}
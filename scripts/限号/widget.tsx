@@ -1,131 +1,325 @@
 // 限号助手小组件 - 主文件
-import { Circle, HStack, Image, RoundedRectangle, Spacer, Text, VStack, Widget, ZStack } from "scripting"
+import { Circle, Color, HStack, Image, RoundedRectangle, Spacer, Text, VirtualNode, VStack, Widget, ZStack } from "scripting"
 // 导入拆分出去的模块
-import { getCurrentTime, getShortLimitInfo } from './utils/base'
-import { getLimitNumbers, getWeeklyLimitNumbers } from './utils/service'
-
-// 声明全局API
+import { getCurrentTime, withTimeout } from './utils/base'
+import { addDays, formatTime, getDateParts, getWeekDates, startOfDay } from './utils/calendar'
+import { CacheFreshness } from './utils/cache'
+import { CommuteCityLimit, CommuteDayLimit, getCommuteCities, getCommuteLimitNumbers } from './utils/commute'
+import { buildMonthCalendar, CalendarDay, MonthCalendar } from './utils/monthCalendar'
+import { formatShortLimit, getHolidayLabel, getLocalizedCityName, getMessages, getWeekdayName } from './utils/i18n'
+import { updateReminders } from './utils/reminder'
+import { createErrorRule, formatTimeWindow, RestrictionRule } from './utils/restriction'
+import { hasOfflineRule } from './utils/rules'
+import {
+  DayLimitInfo,
+  getLimitNumbers,
+  getWeeklyLimitNumbers,
+  LimitData,
+  PlateRestriction,
+  PlateVerdict,
+  VehicleWeeklyRestriction,
+  WeeklyLimitData
+} from './utils/service'
+import { getWidgetTheme, WidgetTheme } from './utils/theme'
+import { buildLimitTimeline, getNextTimelineDate, getTimelineEntry, LimitTimeline, TimelineEntry } from './utils/timeline'
+import { formatTimeWindowStatus, getTimeWindowStatus } from './utils/timeWindow'
 
 // 开发测试配置 - 控制是否强制刷新城市信息
 // 设置为true可以清除城市缓存并重新获取
 const FORCE_REFRESH_CITY = false;
 
+/**
+ * 数据过期且没有重试时间时，小组件再次刷新的间隔（毫秒）
+ */
+const STALE_RELOAD_DELAY = 5 * 60 * 1000;
+
+/**
+ * 限行中刷新剩余时间的间隔（毫秒）
+ */
+const COUNTDOWN_RELOAD_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * 安排限行提醒的最长等待时间（毫秒）
+ */
+const REMINDER_UPDATE_TIMEOUT = 2000;
+
+/**
+ * 显示跨城通勤视图的小组件参数（在小组件的编辑界面中填写）
+ */
+const COMMUTE_WIDGET_PARAMETERS = ['通勤', 'commute'];
+
+/**
+ * 大号小组件显示车库视图（而不是月历）的小组件参数
+ */
+const GARAGE_WIDGET_PARAMETERS = ['车库', 'garage'];
+
+/**
+ * 小组件类型，与script.json中的supportedFamilies保持一致
+ */
+type WidgetFamily =
+  | 'accessoryCircular'
+  | 'accessoryRectangular'
+  | 'accessoryInline'
+  | 'systemSmall'
+  | 'systemMedium'
+  | 'systemLarge';
+
+/**
+ * 小组件内容：视图以及计算下次刷新时间所需的数据
+ */
+interface WidgetContent {
+  view: VirtualNode;
+  freshness: CacheFreshness;
+  timeline: LimitTimeline;
+}
+
+/**
+ * 小组件类型的渲染方式
+ */
+interface WidgetFamilyRenderer {
+  load(currentTime: string, theme: WidgetTheme): Promise<WidgetContent>;   // 获取数据并创建视图
+  renderError(message: string, theme: WidgetTheme): VirtualNode;            // 获取失败时的错误视图
+}
+
+/**
+ * 只需要当天限行信息的小组件：一次刷新后计算之后各状态，按当前时刻所处的状态显示
+ * @param render 根据当天限行信息创建视图
+ * @param renderError 创建错误视图
+ */
+function createTodayRenderer(
+  render: (limitData: LimitData, currentTime: string, theme: WidgetTheme) => VirtualNode,
+  renderError: (message: string, theme: WidgetTheme) => VirtualNode
+): WidgetFamilyRenderer {
+  return {
+    async load(currentTime, theme) {
+      const todayLimitData = await getLimitNumbers({ forceRefreshCity: FORCE_REFRESH_CITY });
+      const timeline = buildLimitTimeline(todayLimitData.city, todayLimitData.limitInfo);
+      const limitData = applyTimelineEntry(todayLimitData, getTimelineEntry(timeline));
+      return { view: render(limitData, currentTime, theme), freshness: todayLimitData.freshness, timeline };
+    },
+    renderError
+  };
+}
+
+/**
+ * 需要一周限行信息的小组件
+ * @param render 根据一周限行信息创建视图
+ * @param renderError 创建错误视图
+ */
+function createWeeklyRenderer(
+  render: (weeklyLimitData: WeeklyLimitData, currentTime: string, theme: WidgetTheme) => VirtualNode,
+  renderError: (message: string, theme: WidgetTheme) => VirtualNode
+): WidgetFamilyRenderer {
+  return {
+    async load(currentTime, theme) {
+      const weeklyLimitData = await getWeeklyLimitNumbers({ forceRefreshCity: FORCE_REFRESH_CITY });
+      const timeline = buildLimitTimeline(weeklyLimitData.city, getTodayRule(weeklyLimitData));
+      return { view: render(weeklyLimitData, currentTime, theme), freshness: weeklyLimitData.freshness, timeline };
+    },
+    renderError
+  };
+}
+
+/**
+ * 大号小组件的月历视图
+ */
+const LARGE_CALENDAR_RENDERER = createTodayRenderer(
+  (limitData, currentTime, theme) => createCalendarWidgetView(buildMonthCalendar(limitData.city, limitData.limitInfo), limitData, currentTime, theme),
+  createSystemErrorView
+);
+
+/**
+ * 大号小组件的车库视图
+ */
+const LARGE_GARAGE_RENDERER = createWeeklyRenderer(
+  (weeklyLimitData, currentTime, theme) => createGarageWidgetView(weeklyLimitData, currentTime, 6, theme),
+  createSystemErrorView
+);
+
+/**
+ * 各小组件类型的渲染方式
+ * 新增小组件类型时需同时添加到script.json的supportedFamilies中；
+ * 锁屏矩形和单行小组件的文字颜色由系统按锁屏样式着色，不使用主题颜色
+ */
+const WIDGET_FAMILIES: Record<WidgetFamily, WidgetFamilyRenderer> = {
+  // 锁屏圆形：限号或本车判定
+  accessoryCircular: createTodayRenderer((limitData, _currentTime, theme) => createCircularWidgetView(limitData, theme), createAccessoryErrorView),
+  // 锁屏矩形：限号、限行时间段状态和城市
+  accessoryRectangular: createTodayRenderer(limitData => createRectangularWidgetView(limitData), createAccessoryErrorView),
+  // 锁屏单行：一行文字
+  accessoryInline: createTodayRenderer(limitData => createInlineWidgetView(limitData), createInlineErrorView),
+  // 桌面小号：突出显示限号
+  systemSmall: createTodayRenderer(createSmallWidgetView, createSmallErrorView),
+  // 桌面中号：一周限行信息，车库中有车辆时按车辆显示
+  systemMedium: createWeeklyRenderer(
+    (weeklyLimitData, currentTime, theme) => weeklyLimitData.garage.length > 0
+      ? createGarageWidgetView(weeklyLimitData, currentTime, 2, theme)
+      : createMediumWidgetView(weeklyLimitData, currentTime, theme),
+    createSystemErrorView
+  ),
+  // 桌面大号：当月限行日历；小组件参数为"车库"时显示车库中每辆车的一周限行情况
+  systemLarge: {
+    load: (currentTime, theme) => (isWidgetParameter(GARAGE_WIDGET_PARAMETERS) ? LARGE_GARAGE_RENDERER : LARGE_CALENDAR_RENDERER).load(currentTime, theme),
+    renderError: createSystemErrorView
+  }
+};
+
+/**
+ * 获取当前小组件类型的渲染方式，未声明的类型按小号显示
+ */
+function getFamilyRenderer(family: string): WidgetFamilyRenderer {
+  return WIDGET_FAMILIES[family as WidgetFamily] || WIDGET_FAMILIES.systemSmall;
+}
+
 /**
  * 创建并显示Widget
  */
 async function createWidget() {
+  // 获取小组件类型
+  const family: string = Widget.family;
+  const renderer = getFamilyRenderer(family);
+  const theme = getWidgetTheme();
+
   try {
-    // 获取小组件类型
-    const family = Widget.family;
-    let widgetView;
-    let currentTime = getCurrentTime();
+    const currentTime = getCurrentTime();
     
-    // 根据不同的小组件类型选择不同的数据获取方式
-    if (family === "systemMedium") { // 桌面中号小组件
-      // 中号小组件需要获取一周的限行信息
-      const weeklyLimitData = await getWeeklyLimitNumbers({ forceRefreshCity: FORCE_REFRESH_CITY });
-      widgetView = createMediumWidgetView(weeklyLimitData, currentTime);
-    } else {
-      // 其他类型小组件只需要获取当天的限行信息
-      const limitData = await getLimitNumbers({ forceRefreshCity: FORCE_REFRESH_CITY });
-      
-      // 根据不同的小组件类型创建不同的视图
-      if (family === "accessoryCircular") {
-        // 锁屏圆形小组件视图
-        widgetView = createCircularWidgetView(limitData);
-      } else {
-        // 标准小组件视图 - Kindle墨水屏风格，优化布局
-        // 特点：顶部左侧标题、右上角城市、右下角时间、中间突出显示限号信息
-        widgetView = createStandardWidgetView(limitData, currentTime);
+    if ((family === "systemMedium" || family === "systemLarge") && isCommuteWidget()) { // 跨城通勤小组件
+      const commuteCities = getCommuteCities();
+      if (commuteCities.length === 0) {
+        Widget.present(createCommuteEmptyView(theme), {
+          policy: "after",
+          date: addDays(startOfDay(new Date()), 1)
+        });
+        return;
       }
+      // 各城市独立获取和缓存，按最早需要刷新的城市刷新小组件
+      const commuteLimits = await getCommuteLimitNumbers(commuteCities);
+      // 通勤小组件不使用定位，限行提醒仍按定位或设置的城市安排
+      Widget.present(createCommuteWidgetView(commuteLimits, currentTime, family === "systemLarge", theme), {
+        policy: "after",
+        date: getCommuteReloadDate(commuteLimits)
+      });
+      return;
+    }
+
+    const { view, freshness, timeline } = await renderer.load(currentTime, theme);
+
+    // 限号数据刷新后重新安排限行提醒，安排失败不影响小组件显示
+    try {
+      await withTimeout(updateReminders(timeline.city), REMINDER_UPDATE_TIMEOUT, []);
+    } catch (reminderError) {
+      console.error('安排限行提醒失败:', reminderError);
     }
 
     // 显示Widget
-    // 设置重载策略，在每天午夜12点刷新
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0);
-    
-    Widget.present(widgetView, {
+    // 设置重载策略，在时间线中的下一个状态（限行开始、结束和次日零点）开始时刷新；数据过期时在下次重试时间刷新
+    Widget.present(view, {
       policy: "after",
-      date: tomorrow
+      date: getNextReloadDate(freshness, timeline)
     });
 
   } catch (e) {
     console.error('Widget运行失败:', e);
     
-    // 获取小组件类型
-    const family = Widget.family;
-    
     // 根据小组件类型显示不同的错误信息
-      if (family === "accessoryCircular") {
-      // 锁屏圆形小组件错误视图
-      Widget.present(
-        <ZStack>
-          <Text font={24} foregroundStyle="#ff0000">错误</Text>
-        </ZStack>,
-        {
-          policy: "after",
-          date: new Date(Date.now() + 1000 * 60 * 5) // 5分钟后重试
-        }
-      );
-    } else if (family === "systemMedium") { // 桌面中号小组件
-      // 中号小组件错误视图
-      Widget.present(
-        <ZStack>
-          <RoundedRectangle fill="#ffffff" cornerRadius={12} />
-          <VStack alignment="center" spacing={8} padding={15}>
-            <Text font="caption" foregroundStyle="#ff0000">获取数据失败</Text>
-            <Text font="caption2" foregroundStyle="#999999">
-              {e instanceof Error ? e.message : '未知错误'}
-            </Text>
-          </VStack>
-        </ZStack>,
-        {
-          policy: "after",
-          date: new Date(Date.now() + 1000 * 60 * 5) // 5分钟后重试
-        }
-      );
-    } else {
-      // 标准小组件错误视图 - Kindle墨水屏风格
-      Widget.present(
-        <ZStack>
-          <RoundedRectangle fill="#f5f5f5" cornerRadius={12} />
-          <VStack alignment="center" spacing={8} padding={20}>
-            
-            <Text font="title" foregroundStyle="#707070">发生错误</Text>
-            <Text font="body" foregroundStyle="#000000">{e instanceof Error ? e.message : '未知错误'}</Text>
-          </VStack>
-        </ZStack>,
-        {
-          policy: "after",
-          date: new Date(Date.now() + 1000 * 60 * 5) // 5分钟后重试
-        }
-      );
-    }
+    Widget.present(renderer.renderError(e instanceof Error ? e.message : getMessages().unknownError, theme), {
+      policy: "after",
+      date: new Date(Date.now() + 1000 * 60 * 5) // 5分钟后重试
+    });
   }
 }
 
 /**
- * 创建标准小组件视图
+ * 创建锁屏小组件错误视图
+ */
+function createAccessoryErrorView(_message: string, theme: WidgetTheme) {
+  return (
+    <ZStack>
+      <Text font={theme.fonts.circular} foregroundStyle={theme.colors.error}>{getMessages().errorShort}</Text>
+    </ZStack>
+  );
+}
+
+/**
+ * 创建锁屏单行小组件错误视图
+ */
+function createInlineErrorView() {
+  return <Text>{getMessages().errorInline}</Text>;
+}
+
+/**
+ * 创建桌面中号、大号小组件错误视图
+ */
+function createSystemErrorView(message: string, theme: WidgetTheme) {
+  return (
+    <ZStack>
+      <RoundedRectangle fill={theme.colors.surface} cornerRadius={12} />
+      <VStack alignment="center" spacing={8} padding={15}>
+        <Text font="caption" foregroundStyle={theme.colors.error}>{getMessages().errorTitle}</Text>
+        <Text font="caption2" foregroundStyle={theme.colors.quaternary}>{message}</Text>
+      </VStack>
+    </ZStack>
+  );
+}
+
+/**
+ * 创建小号小组件错误视图
  */
-function createStandardWidgetView(limitData: any, currentTime: string) {
+function createSmallErrorView(message: string, theme: WidgetTheme) {
   return (
     <ZStack>
-      {/* 模拟Kindle墨水屏的米白色背景 */}
-      <RoundedRectangle fill="#f5f5f5" cornerRadius={12} />
+      <RoundedRectangle fill={theme.colors.background} cornerRadius={12} />
+      <VStack alignment="center" spacing={8} padding={20}>
+        <Text font="title" foregroundStyle={theme.colors.secondary}>{getMessages().errorOccurred}</Text>
+        <Text font="body" foregroundStyle={theme.colors.primary}>{message}</Text>
+      </VStack>
+    </ZStack>
+  );
+}
+
+/**
+ * 创建小号小组件视图
+ * 特点：顶部左侧标题、右上角城市、右下角时间、中间突出显示限号信息
+ */
+function createSmallWidgetView(limitData: LimitData, currentTime: string, theme: WidgetTheme) {
+  const messages = getMessages();
+  const timeWindowText = formatTimeWindowStatus(getTimeWindowStatus(limitData.limitInfo));
+  
+  return (
+    <ZStack>
+      {/* 背景，Kindle墨水屏主题为米白色 */}
+      <RoundedRectangle fill={theme.colors.background} cornerRadius={12} />
       
       {/* 主容器 - 增加内边距防止内容被裁剪 */}
       <VStack padding={15} spacing={8} frame={{ maxWidth: Infinity, maxHeight: Infinity }}>
         {/* 顶部区域 - 简化标题显示，确保不出现省略号 */}
         <HStack spacing={8}>
-          <Text font="caption" foregroundStyle="#707070" fontWeight="semibold">限号助手</Text>
+          <Text font="caption" foregroundStyle={theme.colors.secondary} fontWeight="semibold">{messages.appName}</Text>
           <Spacer />
-          <Text font="caption" foregroundStyle="#909090">{limitData.city}</Text>
+          <Text font="caption" foregroundStyle={theme.colors.tertiary}>{getLocalizedCityName(limitData.city)}</Text>
         </HStack>
         
         {/* 核心限号信息区域 - 居中显示，优化间距确保完整显示 */}
         <Spacer />
+        {limitData.vehicle ? (
+          // 已设置车牌：突出显示本车今日是否限行，城市限行尾号作为辅助信息
+          <VStack alignment="center" spacing={4} frame={{ maxWidth: Infinity }}>
+            <Text 
+              font={theme.fonts.verdict} 
+              foregroundStyle={theme.colors.primary} 
+              fontWeight={theme.fonts.emphasisWeight}
+              minScaleFactor={0.5}
+            >
+              {getVerdictText(limitData.vehicle)}
+            </Text>
+            <Text font="caption" foregroundStyle={theme.colors.secondary} minScaleFactor={0.7}>
+              {getVehicleSubtitle(limitData.vehicle, limitData.limitInfo)}
+            </Text>
+            {timeWindowText ? (
+              <Text font="caption2" foregroundStyle={theme.colors.secondary} minScaleFactor={0.7}>{timeWindowText}</Text>
+            ) : null}
+          </VStack>
+        ) : (
         <VStack alignment="center" padding={{ vertical: 0 }}>
           {/* 根据内容类型调整字体大小和样式 */}
           {/* 使用大字体并添加缩放属性，确保在小尺寸小组件上也能完整显示 */}
@@ -134,16 +328,16 @@ function createStandardWidgetView(limitData: any, currentTime: string) {
               {
                 // 处理限号信息，分离数字和逗号
                 (() => {
-                  const limitText = getShortLimitInfo(limitData.limitInfo);
+                  const limitText = formatShortLimit(limitData.limitInfo);
                   
-                  // 检查是否包含逗号的双数字情况
-                  if (limitText.includes(',')) {
+                  // 检查是否为逗号分隔的双数字情况
+                  if (limitText.split(',').length === 2) {
                     const [firstNum, secondNum] = limitText.split(',');
                     return (
                       <>
                         <Text 
-                          font={60} 
-                          foregroundStyle="#000000" 
+                          font={theme.fonts.hero} 
+                          foregroundStyle={theme.colors.primary} 
                           fontWeight="semibold"
                           minScaleFactor={0.7}
                         >
@@ -151,15 +345,15 @@ function createStandardWidgetView(limitData: any, currentTime: string) {
                         </Text>
                         <Text 
                           font="caption2" 
-                          foregroundStyle="#000000" 
+                          foregroundStyle={theme.colors.primary} 
                           fontWeight="bold"
                           padding={{ bottom: 5 }}
                         >
                           ,
                         </Text>
                         <Text 
-                          font={60} 
-                          foregroundStyle="#000000" 
+                          font={theme.fonts.hero} 
+                          foregroundStyle={theme.colors.primary} 
                           fontWeight="semibold"
                           minScaleFactor={0.5}
                         >
@@ -172,9 +366,9 @@ function createStandardWidgetView(limitData: any, currentTime: string) {
                   // 单数字或其他情况，直接显示
                   return (
                     <Text 
-                      font={60} 
-                      foregroundStyle="#000000" 
-                      fontWeight="bold" 
+                      font={theme.fonts.hero} 
+                      foregroundStyle={theme.colors.primary} 
+                      fontWeight={theme.fonts.emphasisWeight} 
                       frame={{ maxWidth: Infinity }}
                       minScaleFactor={0.5}
                     >
@@ -184,15 +378,20 @@ function createStandardWidgetView(limitData: any, currentTime: string) {
                 })()
               }
             </HStack>
+            {/* 限行时间段状态，如"限行中，还剩 3 小时" */}
+            {timeWindowText ? (
+              <Text font="caption" foregroundStyle={theme.colors.secondary} minScaleFactor={0.7}>{timeWindowText}</Text>
+            ) : null}
         </VStack>
+        )}
         <Spacer />
         
         {/* 底部更新时间区域 - 右下角显示，只显示时间 */}
         <Spacer />
         <HStack>
           <Spacer />
-          <Text font="caption" foregroundStyle="#909090">
-            更新: {currentTime}
+          <Text font="caption" foregroundStyle={limitData.freshness.stale ? theme.colors.stale : theme.colors.tertiary} minScaleFactor={0.7}>
+            {getUpdateText(limitData.freshness, currentTime)}
           </Text>
         </HStack>
       </VStack>
@@ -203,46 +402,51 @@ function createStandardWidgetView(limitData: any, currentTime: string) {
 /**
  * 创建中号小组件视图 - 按星期显示每一天的限行信息
  */
-function createMediumWidgetView(weeklyLimitData: any, currentTime: string) {
-  const { city, weeklyLimitInfo } = weeklyLimitData;
+function createMediumWidgetView(weeklyLimitData: WeeklyLimitData, currentTime: string, theme: WidgetTheme) {
+  const messages = getMessages();
+  const { city, weeklyLimitInfo, vehicle } = weeklyLimitData;
   
   // 计算当前日期范围 - 显示本周一到周日
-  const today = new Date();
-  const dayOfWeek = today.getDay(); // 0-6, 0是周日
-  
-  // 计算本周一的日期
-  const startDate = new Date(today);
-  // 如果今天是周日，需要特殊处理（因为getDay()返回0）
-  const daysToMonday = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-  startDate.setDate(today.getDate() + daysToMonday);
-  
-  // 计算本周日的日期（在周一的基础上加6天）
-  const endDate = new Date(startDate);
-  endDate.setDate(startDate.getDate() + 6);
+  const weekDates = getWeekDates(new Date());
+  const startDate = getDateParts(weekDates[0]);
+  const endDate = getDateParts(weekDates[6]);
   
   // 格式化日期范围显示
-  const dateRange = `${startDate.getFullYear()}年${startDate.getMonth() + 1}月${startDate.getDate()}日-${endDate.getMonth() + 1}月${endDate.getDate()}日`;
+  const dateRange = messages.weekRange(startDate, endDate);
   
   return (
     <ZStack>
       {/* 背景 */}
-      <RoundedRectangle fill="#ffffff" cornerRadius={12} />
+      <RoundedRectangle fill={theme.colors.surface} cornerRadius={12} />
       
       {/* 主容器 - 优化垂直布局，确保主体信息居中 */}
       <VStack spacing={6} padding={15} frame={{ maxWidth: Infinity, maxHeight: Infinity }}>
         {/* 顶部标题和城市信息 */}
         <HStack spacing={8} frame={{ maxWidth: Infinity }}>
-          <Text font="caption" foregroundStyle="#707070" fontWeight="bold">限号助手</Text>
+          <Text font="caption" foregroundStyle={theme.colors.secondary} fontWeight="bold">{messages.appName}</Text>
           <Spacer />
-          <Text font="caption" foregroundStyle="#909090">{city}</Text>
+          <Text font="caption" foregroundStyle={theme.colors.tertiary}>{getLocalizedCityName(city)}</Text>
         </HStack>
         
-        {/* 增加顶部间隔，使日期范围文本位置更靠下 */}
-        <Spacer minLength={4} />
+        {/* 已设置车牌时显示本车今日限行判定 */}
+        {vehicle ? (
+          <HStack spacing={6} frame={{ maxWidth: Infinity }}>
+            <Text font="headline" foregroundStyle={getVerdictColor(vehicle.verdict, theme)} fontWeight="bold">
+              {getVerdictText(vehicle)}
+            </Text>
+            <Text font="caption" foregroundStyle={theme.colors.secondary}>
+              {getVehicleSubtitle(vehicle)}
+            </Text>
+            <Spacer />
+          </HStack>
+        ) : (
+          // 增加顶部间隔，使日期范围文本位置更靠下
+          <Spacer minLength={4} />
+        )}
         
         {/* 日期范围 */}
-        <Text font="caption" foregroundStyle="#909090" multilineTextAlignment="leading">
-          本周尾号限行（{dateRange}）
+        <Text font="caption" foregroundStyle={theme.colors.tertiary} multilineTextAlignment="leading">
+          {messages.weekTitle(dateRange)}
         </Text>
         
         {/* 增加小间隔，让内容更好地分组 */}
@@ -250,23 +454,21 @@ function createMediumWidgetView(weeklyLimitData: any, currentTime: string) {
         
         {/* 星期限行信息行 - 主体内容 */}
         <HStack spacing={5} frame={{ maxWidth: Infinity }}>
-          {weeklyLimitInfo.map((dayInfo: any) => {
-            // 处理限行信息文本
-            let limitText = getShortLimitInfo(dayInfo.limitInfo);
-            // 将逗号替换为"和"
-            limitText = limitText.replace(',', '和');
+          {weeklyLimitInfo.map((dayInfo: DayLimitInfo) => {
+            // 处理限行信息文本，节假日显示节日名称
+            const limitText = getDayLimitText(dayInfo);
             
             // 根据是否为今天设置不同的样式
             if (dayInfo.isToday) {
               return (
                 <VStack alignment="center" spacing={2} frame={{ maxWidth: 'infinity' }}>
                   {/* 星期 */}
-                  <Text font="caption2" foregroundStyle="#007AFF" fontWeight="bold">
-                    {dayInfo.day}
+                  <Text font="caption2" foregroundStyle={theme.colors.accent} fontWeight="bold">
+                    {getWeekdayName(dayInfo.dayIndex)}
                   </Text>
                   {/* 限行信息 */}
-                  <Text font="caption2" foregroundStyle="#007AFF" fontWeight="bold">
-                    {limitText === '不限行' ? '不限' : limitText}
+                  <Text font="caption2" foregroundStyle={theme.colors.accent} fontWeight="bold">
+                    {limitText}
                   </Text>
                 </VStack>
               );
@@ -274,12 +476,12 @@ function createMediumWidgetView(weeklyLimitData: any, currentTime: string) {
               return (
                 <VStack alignment="center" spacing={2} frame={{ maxWidth: 'infinity' }}>
                   {/* 星期 */}
-                  <Text font="caption2" foregroundStyle="#333333">
-                    {dayInfo.day}
+                  <Text font="caption2" foregroundStyle={theme.colors.text}>
+                    {getWeekdayName(dayInfo.dayIndex)}
                   </Text>
                   {/* 限行信息 */}
-                  <Text font="caption2" foregroundStyle="#333333">
-                    {limitText === '不限行' ? '不限' : limitText}
+                  <Text font="caption2" foregroundStyle={theme.colors.text}>
+                    {limitText}
                   </Text>
                 </VStack>
               );
@@ -292,8 +494,151 @@ function createMediumWidgetView(weeklyLimitData: any, currentTime: string) {
         {/* 底部更新时间 - 调整为靠右对齐 */}
         <HStack frame={{ maxWidth: Infinity }}>
           <Spacer />
-          <Text font="caption2" foregroundStyle="#999999">
-            更新: {currentTime}
+          <Text font="caption2" foregroundStyle={weeklyLimitData.freshness.stale ? theme.colors.stale : theme.colors.quaternary}>
+            {getUpdateText(weeklyLimitData.freshness, currentTime)}
+          </Text>
+        </HStack>
+      </VStack>
+    </ZStack>
+  );
+}
+
+/**
+ * 创建车库小组件视图 - 按车辆显示今天和一周每天的限行情况
+ * @param weeklyLimitData 一周限行信息（包含车库判定结果）
+ * @param currentTime 更新时间
+ * @param maxVehicles 最多显示的车辆数量
+ */
+function createGarageWidgetView(weeklyLimitData: WeeklyLimitData, currentTime: string, maxVehicles: number, theme: WidgetTheme) {
+  const messages = getMessages();
+  const { city, weeklyLimitInfo, garage } = weeklyLimitData;
+  const visibleGarage = garage.slice(0, maxVehicles);
+  
+  return (
+    <ZStack>
+      {/* 背景 */}
+      <RoundedRectangle fill={theme.colors.surface} cornerRadius={12} />
+      
+      <VStack spacing={6} padding={15} frame={{ maxWidth: Infinity, maxHeight: Infinity }}>
+        {/* 顶部标题和城市信息 */}
+        <HStack spacing={8} frame={{ maxWidth: Infinity }}>
+          <Text font="caption" foregroundStyle={theme.colors.secondary} fontWeight="bold">{messages.appName}</Text>
+          <Spacer />
+          <Text font="caption" foregroundStyle={theme.colors.tertiary}>{getLocalizedCityName(city)}</Text>
+        </HStack>
+        
+        <Spacer minLength={2} />
+        
+        {/* 星期和城市限行尾号 */}
+        <HStack spacing={4} frame={{ maxWidth: Infinity }}>
+          <Text font="caption2" foregroundStyle={theme.colors.tertiary} frame={{ width: 64 }}> </Text>
+          {weeklyLimitInfo.map((dayInfo: DayLimitInfo) => {
+            const limitText = getDayLimitText(dayInfo);
+            const color = dayInfo.isToday ? theme.colors.accent : theme.colors.text;
+            return (
+              <VStack alignment="center" spacing={2} frame={{ maxWidth: 'infinity' }}>
+                <Text font="caption2" foregroundStyle={color} fontWeight={dayInfo.isToday ? 'bold' : 'regular'}>
+                  {getWeekdayName(dayInfo.dayIndex)}
+                </Text>
+                <Text font="caption2" foregroundStyle={color} minScaleFactor={0.6}>
+                  {limitText}
+                </Text>
+              </VStack>
+            );
+          })}
+        </HStack>
+        
+        {/* 每辆车一行：昵称、今日判定、一周每天的判定 */}
+        {visibleGarage.length > 0 ? (
+          visibleGarage.map((item: VehicleWeeklyRestriction) => (
+            <HStack spacing={4} frame={{ maxWidth: Infinity }}>
+              <VStack alignment="leading" spacing={0} frame={{ width: 64 }}>
+                <Text font="caption2" foregroundStyle={theme.colors.text} fontWeight="semibold" lineLimit={1} minScaleFactor={0.7}>
+                  {item.vehicle.nickname}
+                </Text>
+                <Text font="caption2" foregroundStyle={getVerdictColor(item.today.verdict, theme)} lineLimit={1} minScaleFactor={0.7}>
+                  {getVerdictText(item.today)}
+                </Text>
+              </VStack>
+              {item.week.map((restriction: PlateRestriction, index: number) => (
+                <Text 
+                  font="caption" 
+                  foregroundStyle={getVerdictColor(restriction.verdict, theme)} 
+                  fontWeight={weeklyLimitInfo[index].isToday ? 'bold' : 'regular'}
+                  frame={{ maxWidth: 'infinity' }}
+                >
+                  {getVerdictMark(restriction.verdict)}
+                </Text>
+              ))}
+            </HStack>
+          ))
+        ) : (
+          <Text font="caption" foregroundStyle={theme.colors.tertiary}>{messages.addVehicleHint}</Text>
+        )}
+        
+        <Spacer minLength={4} />
+        
+        {/* 底部更新时间 */}
+        <HStack frame={{ maxWidth: Infinity }}>
+          {garage.length > visibleGarage.length ? (
+            <Text font="caption2" foregroundStyle={theme.colors.quaternary}>
+              {messages.moreVehicles(garage.length - visibleGarage.length)}
+            </Text>
+          ) : null}
+          <Spacer />
+          <Text font="caption2" foregroundStyle={weeklyLimitData.freshness.stale ? theme.colors.stale : theme.colors.quaternary}>
+            {getUpdateText(weeklyLimitData.freshness, currentTime)}
+          </Text>
+        </HStack>
+      </VStack>
+    </ZStack>
+  );
+}
+
+/**
+ * 创建跨城通勤小组件视图 - 每个城市一列，显示今天和明天的限行信息
+ * @param commuteLimits 各通勤城市的限行信息
+ * @param currentTime 更新时间
+ * @param detailed 是否显示限行时间段（大号小组件）
+ */
+function createCommuteWidgetView(commuteLimits: CommuteCityLimit[], currentTime: string, detailed: boolean, theme: WidgetTheme) {
+  const messages = getMessages();
+  const stale = commuteLimits.some(item => item.freshness.stale);
+  
+  return (
+    <ZStack>
+      {/* 背景 */}
+      <RoundedRectangle fill={theme.colors.surface} cornerRadius={12} />
+      
+      <VStack spacing={6} padding={15} frame={{ maxWidth: Infinity, maxHeight: Infinity }}>
+        {/* 顶部标题 */}
+        <HStack spacing={8} frame={{ maxWidth: Infinity }}>
+          <Text font="caption" foregroundStyle={theme.colors.secondary} fontWeight="bold">{messages.commuteTitle}</Text>
+          <Spacer />
+        </HStack>
+        
+        <Spacer minLength={2} />
+        
+        {/* 每个城市一列，城市之间互不影响 */}
+        <HStack alignment="top" spacing={8} frame={{ maxWidth: Infinity }}>
+          {commuteLimits.map((item: CommuteCityLimit) => (
+            <VStack alignment="leading" spacing={4} frame={{ maxWidth: 'infinity', alignment: 'leading' }}>
+              <Text font="subheadline" foregroundStyle={item.freshness.stale ? theme.colors.stale : theme.colors.text} fontWeight="bold" lineLimit={1}>
+                {item.freshness.stale ? `⚠︎ ${getLocalizedCityName(item.city)}` : getLocalizedCityName(item.city)}
+              </Text>
+              {createCommuteDayView(messages.today, item.today, detailed, theme)}
+              {createCommuteDayView(messages.tomorrow, item.tomorrow, detailed, theme)}
+            </VStack>
+          ))}
+        </HStack>
+        
+        <Spacer minLength={4} />
+        
+        {/* 底部更新时间，有城市使用旧数据时标记颜色 */}
+        <HStack frame={{ maxWidth: Infinity }}>
+          <Spacer />
+          <Text font="caption2" foregroundStyle={stale ? theme.colors.stale : theme.colors.quaternary}>
+            {messages.updatedAt(currentTime)}
           </Text>
         </HStack>
       </VStack>
@@ -301,36 +646,441 @@ function createMediumWidgetView(weeklyLimitData: any, currentTime: string) {
   );
 }
 
+/**
+ * 创建跨城通勤视图中某一天的限行信息，已设置车牌时显示本车判定
+ */
+function createCommuteDayView(label: string, dayLimit: CommuteDayLimit, detailed: boolean, theme: WidgetTheme) {
+  const limitText = getCommuteLimitText(dayLimit);
+  const windowText = dayLimit.limitInfo.timeWindows.map(formatTimeWindow).join(' ');
+  
+  return (
+    <VStack alignment="leading" spacing={1}>
+      <HStack spacing={4}>
+        <Text font="caption2" foregroundStyle={theme.colors.tertiary}>{label}</Text>
+        {dayLimit.vehicle ? (
+          <Text font="caption2" foregroundStyle={getVerdictColor(dayLimit.vehicle.verdict, theme)} fontWeight="bold">
+            {getVerdictMark(dayLimit.vehicle.verdict)}
+          </Text>
+        ) : null}
+      </HStack>
+      <Text font="headline" foregroundStyle={theme.colors.primary} fontWeight="semibold" lineLimit={1} minScaleFactor={0.5}>
+        {limitText}
+      </Text>
+      {detailed && windowText ? (
+        <Text font="caption2" foregroundStyle={theme.colors.secondary} lineLimit={1} minScaleFactor={0.6}>{windowText}</Text>
+      ) : null}
+    </VStack>
+  );
+}
+
+/**
+ * 创建未设置通勤城市时的提示视图
+ */
+function createCommuteEmptyView(theme: WidgetTheme) {
+  const messages = getMessages();
+  return (
+    <ZStack>
+      <RoundedRectangle fill={theme.colors.surface} cornerRadius={12} />
+      <VStack alignment="center" spacing={8} padding={15}>
+        <Text font="caption" foregroundStyle={theme.colors.secondary} fontWeight="bold">{messages.commuteTitle}</Text>
+        <Text font="caption" foregroundStyle={theme.colors.tertiary}>{messages.commuteEmptyHint}</Text>
+      </VStack>
+    </ZStack>
+  );
+}
+
+/**
+ * 创建月历小组件视图 - 当月每一天的限行尾号，标记节假日和本车限行的日期，底部显示下次轮换日期
+ * @param calendar 当月限行日历
+ * @param limitData 当天限行信息（用于本车判定和数据新鲜度）
+ * @param currentTime 更新时间
+ */
+function createCalendarWidgetView(calendar: MonthCalendar, limitData: LimitData, currentTime: string, theme: WidgetTheme) {
+  const messages = getMessages();
+  return (
+    <ZStack>
+      {/* 背景 */}
+      <RoundedRectangle fill={theme.colors.surface} cornerRadius={12} />
+      
+      <VStack spacing={4} padding={15} frame={{ maxWidth: Infinity, maxHeight: Infinity }}>
+        {/* 顶部标题、月份和城市 */}
+        <HStack spacing={8} frame={{ maxWidth: Infinity }}>
+          <Text font="caption" foregroundStyle={theme.colors.secondary} fontWeight="bold">{messages.appName}</Text>
+          <Text font="caption" foregroundStyle={theme.colors.text} fontWeight="semibold">{messages.monthTitle(calendar.year, calendar.month)}</Text>
+          <Spacer />
+          <Text font="caption" foregroundStyle={theme.colors.tertiary}>{getLocalizedCityName(calendar.city)}</Text>
+        </HStack>
+        
+        {/* 星期 */}
+        <HStack spacing={2} frame={{ maxWidth: Infinity }}>
+          {messages.weekdaysShort.map((day: string, index: number) => (
+            <Text font="caption2" foregroundStyle={index >= 5 ? theme.colors.tertiary : theme.colors.secondary} frame={{ maxWidth: 'infinity' }}>
+              {day}
+            </Text>
+          ))}
+        </HStack>
+        
+        {/* 每周一行 */}
+        {calendar.weeks.map((week: (CalendarDay | null)[]) => (
+          <HStack spacing={2} frame={{ maxWidth: Infinity, maxHeight: 'infinity' }}>
+            {week.map((day: CalendarDay | null) => createCalendarDayView(day, theme))}
+          </HStack>
+        ))}
+        
+        {/* 底部：下次轮换日期、本车限行图例和更新时间 */}
+        <HStack spacing={6} frame={{ maxWidth: Infinity }}>
+          <Text font="caption2" foregroundStyle={theme.colors.secondary}>
+            {getNextRotationText(calendar)}
+          </Text>
+          {limitData.vehicle ? (
+            <Text font="caption2" foregroundStyle={theme.colors.restricted}>{messages.restrictedLegend}</Text>
+          ) : null}
+          <Spacer />
+          <Text font="caption2" foregroundStyle={limitData.freshness.stale ? theme.colors.stale : theme.colors.quaternary}>
+            {getUpdateText(limitData.freshness, currentTime)}
+          </Text>
+        </HStack>
+      </VStack>
+    </ZStack>
+  );
+}
+
+/**
+ * 创建月历中的一天：日期和限行尾号，本车限行的日期加背景色，今天加粗显示
+ */
+function createCalendarDayView(day: CalendarDay | null, theme: WidgetTheme) {
+  if (!day) {
+    return <Text font="caption2" frame={{ maxWidth: 'infinity' }}> </Text>;
+  }
+  
+  const restricted = day.vehicle !== null && day.vehicle.verdict === 'restricted';
+  const dayColor = day.isToday ? theme.colors.accent : theme.colors.text;
+  
+  return (
+    <ZStack frame={{ maxWidth: 'infinity', maxHeight: 'infinity' }}>
+      <RoundedRectangle fill={restricted ? theme.colors.restrictedDayBackground : theme.colors.surface} cornerRadius={6} />
+      <VStack alignment="center" spacing={0}>
+        <Text font="caption" foregroundStyle={dayColor} fontWeight={day.isToday ? 'bold' : 'regular'}>
+          {day.day}
+        </Text>
+        <Text font={theme.fonts.calendarDetail} foregroundStyle={getCalendarLimitColor(day, restricted, theme)} lineLimit={1} minScaleFactor={0.6}>
+          {getCalendarLimitText(day)}
+        </Text>
+      </VStack>
+    </ZStack>
+  );
+}
+
+/**
+ * 创建锁屏矩形小组件视图 - 限号、限行时间段状态和城市
+ */
+function createRectangularWidgetView(limitData: LimitData) {
+  const messages = getMessages();
+  const limitText = formatShortLimit(limitData.limitInfo);
+  const timeWindowStatus = getTimeWindowStatus(limitData.limitInfo);
+  const timeWindowText = formatTimeWindowStatus(timeWindowStatus)
+    || limitData.limitInfo.timeWindows.map(formatTimeWindow).join(' ');
+  
+  return (
+    <VStack alignment="leading" spacing={2} frame={{ maxWidth: Infinity, alignment: 'leading' }}>
+      <HStack spacing={4}>
+        <Image systemName="car.fill" font="caption" />
+        <Text font="headline" fontWeight="bold" minScaleFactor={0.6} lineLimit={1}>
+          {limitData.vehicle ? getVerdictText(limitData.vehicle) : messages.limitNumbers(limitText)}
+        </Text>
+      </HStack>
+      {limitData.vehicle ? (
+        <Text font="caption" minScaleFactor={0.6} lineLimit={1}>
+          {getVehicleSubtitle(limitData.vehicle, limitData.limitInfo)}
+        </Text>
+      ) : null}
+      <Text font="caption" minScaleFactor={0.6} lineLimit={1}>
+        {timeWindowText ? `${timeWindowText} · ${getLocalizedCityName(limitData.city)}` : getLocalizedCityName(limitData.city)}
+      </Text>
+    </VStack>
+  );
+}
+
+/**
+ * 创建锁屏单行小组件视图 - 本车判定或限号，附带限行时间段状态或城市，如"今日限行 · 限行中，还剩 3 小时"
+ */
+function createInlineWidgetView(limitData: LimitData) {
+  const messages = getMessages();
+  const limitText = formatShortLimit(limitData.limitInfo);
+  const mainText = limitData.vehicle ? getVerdictText(limitData.vehicle) : messages.limitNumbers(limitText);
+  const detailText = formatTimeWindowStatus(getTimeWindowStatus(limitData.limitInfo)) || getLocalizedCityName(limitData.city);
+  
+  return (
+    <HStack>
+      <Image systemName="car.fill" />
+      <Text>{`${mainText} · ${detailText}`}</Text>
+    </HStack>
+  );
+}
+
 /**
  * 创建圆形小组件视图
  */
-function createCircularWidgetView(limitData: any) {
-  const limitText = getShortLimitInfo(limitData.limitInfo);
+function createCircularWidgetView(limitData: LimitData, theme: WidgetTheme) {
+  const messages = getMessages();
+  const noLimit = limitData.limitInfo.mode === 'none';
+  const limitText = noLimit ? messages.noLimitShort : formatShortLimit(limitData.limitInfo);
   
   return (
     <ZStack>
-      {/* 圆形背景 - 使用白色增强对比度 */}
-      <Circle fill="#ffffff" />
+      {/* 圆形背景 */}
+      <Circle fill={theme.colors.accessoryBackground} />
       
       {/* 中心显示限号信息 */}
       <VStack alignment="center" spacing={2}>
-        {/* 汽车图标 - 使用黑色增强可见性 */}
-        <Image systemName="car.fill" foregroundStyle="#000000" />
+        {/* 汽车图标 */}
+        <Image systemName="car.fill" foregroundStyle={theme.colors.accessoryForeground} />
         
-        {/* 根据内容调整字体大小 - 减小不限行文字大小，保持数字大小不变 */}
+        {limitData.vehicle ? (
+          // 已设置车牌：显示本车判定，城市限行尾号作为辅助信息
+          <>
+            <Text font={theme.fonts.circularVerdict} foregroundStyle={theme.colors.accessoryForeground} fontWeight={theme.fonts.emphasisWeight} minScaleFactor={0.5}>
+              {getVerdictShortText(limitData.vehicle)}
+            </Text>
+            <Text font={theme.fonts.circularDetail} foregroundStyle={theme.colors.accessoryForeground} minScaleFactor={0.5}>
+              {limitText}
+            </Text>
+          </>
+        ) : (
+        // 根据内容调整字体大小 - 减小不限行文字大小，保持数字大小不变
         <Text 
-          font={limitText === '不限行' ? 18 : 24} 
-          foregroundStyle="#000000" 
-          fontWeight="bold"
+          font={noLimit ? theme.fonts.circularText : theme.fonts.circular} 
+          foregroundStyle={theme.colors.accessoryForeground} 
+          fontWeight={theme.fonts.emphasisWeight}
           minScaleFactor={0.5}
         >
-          {limitText === '不限行' ? '不限' : limitText}
+          {limitText}
         </Text>
+        )}
       </VStack>
     </ZStack>
   );
 }
 
+/**
+ * 获取底部的更新时间文本
+ * 数据过期时显示上次成功获取数据的时间，如"⚠︎ 10/18 07:30的数据"
+ */
+function getUpdateText(freshness: CacheFreshness, currentTime: string): string {
+  const messages = getMessages();
+  if (!freshness.stale) {
+    return messages.updatedAt(currentTime);
+  }
+  if (freshness.updatedAt === null) {
+    return messages.retryLater;
+  }
+
+  const updatedAt = new Date(freshness.updatedAt);
+  const { month, day } = getDateParts(updatedAt);
+  return messages.staleData(`${month}/${day}`, formatTime(updatedAt));
+}
+
+/**
+ * 判断小组件参数（在小组件的编辑界面中填写）是否为指定值之一
+ * @param parameters 参数值，英文不区分大小写
+ */
+function isWidgetParameter(parameters: string[]): boolean {
+  const parameter = typeof Widget.parameter === 'string' ? Widget.parameter.trim().toLowerCase() : '';
+  return parameters.includes(parameter);
+}
+
+/**
+ * 判断小组件是否显示跨城通勤视图：小组件参数为"通勤"或"commute"
+ */
+function isCommuteWidget(): boolean {
+  return isWidgetParameter(COMMUTE_WIDGET_PARAMETERS);
+}
+
+/**
+ * 获取跨城通勤视图中某一天的限行显示文本，节假日显示节日名称
+ */
+function getCommuteLimitText(dayLimit: CommuteDayLimit): string {
+  if (dayLimit.holiday && dayLimit.holiday.type === 'holiday') {
+    return getHolidayLabel(dayLimit.holiday);
+  }
+  return formatShortLimit(dayLimit.limitInfo);
+}
+
+/**
+ * 获取跨城通勤小组件的下次刷新时间，取各城市时间线中最早需要刷新的时刻
+ */
+function getCommuteReloadDate(commuteLimits: CommuteCityLimit[]): Date {
+  const reloadTimes = commuteLimits.map(item =>
+    getNextReloadDate(item.freshness, buildLimitTimeline(item.city, item.today.limitInfo)).getTime()
+  );
+  return new Date(Math.min(...reloadTimes));
+}
+
+/**
+ * 获取一周数据中今天的限行规则
+ */
+function getTodayRule(weeklyLimitData: WeeklyLimitData): RestrictionRule {
+  const todayInfo = weeklyLimitData.weeklyLimitInfo.find(dayInfo => dayInfo.isToday);
+  return todayInfo ? todayInfo.limitInfo : createErrorRule('noData', getMessages().noTodayData);
+}
+
+/**
+ * 使用时间线中的状态替换当天限行信息中的规则和判定
+ */
+function applyTimelineEntry(limitData: LimitData, entry: TimelineEntry): LimitData {
+  return { ...limitData, limitInfo: entry.limitInfo, vehicle: entry.vehicle, holiday: entry.holiday };
+}
+
+/**
+ * 获取小组件的下次刷新时间，取以下时刻中最早的一个：
+ * 时间线中下一个状态开始的时刻（没有时为明天零点）；限行中每隔一段时间刷新倒计时；数据过期时的下次重试时间（至少1分钟后）
+ * @param freshness 数据新鲜度
+ * @param timeline 小组件时间线
+ */
+function getNextReloadDate(freshness: CacheFreshness, timeline: LimitTimeline): Date {
+  const now = new Date();
+  const nextEntryDate = getNextTimelineDate(timeline, now);
+  const candidates = [(nextEntryDate || addDays(startOfDay(now), 1)).getTime()];
+
+  if (getTimelineEntry(timeline, now).state === 'active') {
+    candidates.push(now.getTime() + COUNTDOWN_RELOAD_INTERVAL);
+  }
+
+  if (freshness.stale) {
+    // 刷新仍在进行或尚未失败时，5分钟后再次检查
+    const retryAt = freshness.nextRetryAt !== null ? freshness.nextRetryAt : now.getTime() + STALE_RELOAD_DELAY;
+    candidates.push(Math.max(retryAt, now.getTime() + 60 * 1000));
+  }
+
+  return new Date(Math.min(...candidates));
+}
+
+/**
+ * 获取月历中某一天的限行显示文本
+ * 法定节假日显示"休"，调休上班日显示"班"和尾号，不限行的日期留空，没有数据时显示"-"，如"4/9"
+ */
+function getCalendarLimitText(day: CalendarDay): string {
+  const messages = getMessages();
+  if (day.holiday && day.holiday.type === 'holiday') {
+    return messages.holidayMark;
+  }
+  
+  let limitText = '';
+  if (day.limitInfo.mode === 'digits' || day.limitInfo.mode === 'oddEven') {
+    limitText = formatShortLimit(day.limitInfo).replace(',', '/');
+  } else if (day.limitInfo.mode === 'error') {
+    limitText = '-';
+  }
+  return day.holiday ? `${messages.workdayMark} ${limitText}` : limitText;
+}
+
+/**
+ * 获取月历中某一天的限行文本颜色：本车限行为红色，节假日为绿色
+ */
+function getCalendarLimitColor(day: CalendarDay, restricted: boolean, theme: WidgetTheme): Color {
+  if (restricted) {
+    return theme.colors.restricted;
+  }
+  return day.holiday && day.holiday.type === 'holiday' ? theme.colors.allowed : theme.colors.secondary;
+}
+
+/**
+ * 获取下次轮换日期的显示文本，如"12/29 起轮换"
+ */
+function getNextRotationText(calendar: MonthCalendar): string {
+  const messages = getMessages();
+  if (!calendar.nextRotation) {
+    return hasOfflineRule(calendar.city) ? messages.noRotation : messages.noRotationInfo;
+  }
+  const { month, day } = getDateParts(calendar.nextRotation);
+  return messages.nextRotation(month, day);
+}
+
+/**
+ * 获取车牌限行判定的显示文本
+ */
+function getVerdictText(vehicle: PlateRestriction): string {
+  const messages = getMessages();
+  if (vehicle.verdict === 'restricted') {
+    return messages.restrictedToday;
+  }
+  if (vehicle.verdict === 'notRestricted') {
+    return messages.allowedToday;
+  }
+  return messages.noData;
+}
+
+/**
+ * 获取车牌限行判定的简短显示文本，用于圆形小组件，如"限行"
+ */
+function getVerdictShortText(vehicle: PlateRestriction): string {
+  const messages = getMessages();
+  if (vehicle.verdict === 'restricted') {
+    return messages.restrictedShort;
+  }
+  if (vehicle.verdict === 'notRestricted') {
+    return messages.allowedShort;
+  }
+  return messages.noData;
+}
+
+/**
+ * 获取一周视图中某一天的限行显示文本
+ * 法定节假日显示节日名称（如"国庆"），调休上班日显示"调休"，其他日期显示限行尾号（如"4和9"）
+ */
+function getDayLimitText(dayInfo: DayLimitInfo): string {
+  const messages = getMessages();
+  if (dayInfo.holiday) {
+    return getHolidayLabel(dayInfo.holiday);
+  }
+
+  if (dayInfo.limitInfo.mode === 'none') {
+    return messages.noLimitShort;
+  }
+  return formatShortLimit(dayInfo.limitInfo).replace(',', messages.digitsSeparator);
+}
+
+/**
+ * 获取车牌限行判定在一周表格中的标记
+ */
+function getVerdictMark(verdict: PlateVerdict): string {
+  const messages = getMessages();
+  if (verdict === 'restricted') {
+    return messages.restrictedMark;
+  }
+  if (verdict === 'notRestricted') {
+    return messages.allowedMark;
+  }
+  return '?';
+}
+
+/**
+ * 获取车牌限行判定的显示颜色
+ */
+function getVerdictColor(verdict: PlateVerdict, theme: WidgetTheme): Color {
+  if (verdict === 'restricted') {
+    return theme.colors.restricted;
+  }
+  if (verdict === 'notRestricted') {
+    return theme.colors.allowed;
+  }
+  return theme.colors.unknown;
+}
+
+/**
+ * 获取车牌限行判定的辅助说明文本，如"尾号6 · 限行4,9"
+ * @param vehicle 车牌限行判定
+ * @param rule 城市限行规则，不指定时只显示尾号
+ */
+function getVehicleSubtitle(vehicle: PlateRestriction, rule?: RestrictionRule): string {
+  const messages = getMessages();
+  const tailText = vehicle.tailDigit !== null ? messages.tailDigit(vehicle.tailDigit) : vehicle.plate;
+  if (!rule) {
+    return tailText;
+  }
+  return `${tailText} · ${rule.mode === 'none' ? messages.noLimit : messages.restrictedDigits(formatShortLimit(rule))}`;
+}
+
 // 启动Widget
 createWidget();
 
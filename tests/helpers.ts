@@ -0,0 +1,33 @@
+// 测试辅助模块
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { RestrictionRule } from '../scripts/限号/utils/restriction'
+
+/**
+ * 读取tests/fixtures下的样本文件
+ * @param name 相对于fixtures目录的路径，如"baidu/beijing-card.html"
+ */
+export function readFixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+}
+
+/**
+ * 限行规则中用于断言的字段
+ */
+export interface RuleSummary {
+  mode: RestrictionRule['mode'];
+  digits: number[];
+  timeWindows: RestrictionRule['timeWindows'];
+  source: RestrictionRule['source'];
+}
+
+/**
+ * 提取限行规则中用于断言的字段，忽略可信度、错误信息等字段
+ */
+export function summarizeRule(rule: RestrictionRule | undefined): RuleSummary | undefined {
+  if (!rule) {
+    return undefined;
+  }
+  return { mode: rule.mode, digits: rule.digits, timeWindows: rule.timeWindows, source: rule.source };
+}
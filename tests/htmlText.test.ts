@@ -0,0 +1,57 @@
+// HTML文本规范化测试
+// 检查标签、实体、全角字符和空白的处理，以及规范化文本到原始HTML位置的映射
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { foldFullWidth, getSourceOffset, normalizeHtml } from '../scripts/限号/utils/htmlText'
+
+describe('normalizeHtml', () => {
+  it('去除行内标签，尾号和"和"之间不插入空白', () => {
+    assert.equal(normalizeHtml('限行尾号<em>4</em>和<em class="c-color">9</em>').text, '限行尾号4和9');
+  });
+
+  it('&nbsp;和连续空白合并为一个空格，去除开头和结尾的空白', () => {
+    assert.equal(normalizeHtml('  今日&nbsp;&nbsp;<em>周三</em>\n  限行尾号 ').text, '今日 周三 限行尾号');
+  });
+
+  it('块级标签的边界合并为一个换行', () => {
+    assert.equal(normalizeHtml('<div>分别为：3和8</div>\n  <div> 往期尾号</div><br>1和6').text, '分别为:3和8\n往期尾号\n1和6');
+  });
+
+  it('解码命名实体和数字实体，未知实体保持原样', () => {
+    assert.equal(normalizeHtml('&#38480;&#x884C;&lt;&amp;&gt;&unknown;').text, '限行<&>&unknown;');
+  });
+
+  it('全角数字和标点转为半角，中文标点保持不变', () => {
+    assert.equal(normalizeHtml('限行尾号：１和６；周六、周日不限行。').text, '限行尾号:1和6;周六、周日不限行。');
+    assert.equal(foldFullWidth('　'), ' ');
+  });
+
+  it('移除script、style块和注释', () => {
+    const html = '<script>var limit = "3和8";</script><style>em{color:red}</style><!-- 2和7 -->今日<em>1和6</em>';
+    assert.equal(normalizeHtml(html).text, '今日1和6');
+  });
+
+  it('标签属性中的">"不会提前结束标签', () => {
+    assert.equal(normalizeHtml('<a title="a>b">今日</a>').text, '今日');
+  });
+});
+
+describe('getSourceOffset', () => {
+  it('返回规范化文本中的字符在原始HTML中的位置', () => {
+    const html = '<div>今日&nbsp;<em>１</em>和6</div>';
+    const page = normalizeHtml(html);
+    assert.equal(page.text, '今日 1和6');
+    assert.equal(getSourceOffset(page, 0), html.indexOf('今日'));
+    assert.equal(getSourceOffset(page, 2), html.indexOf('&nbsp;'));
+    assert.equal(getSourceOffset(page, 3), html.indexOf('１'));
+    assert.equal(getSourceOffset(page, 5), html.indexOf('6'));
+  });
+
+  it('超出范围的位置限制在原始HTML的开头和结尾', () => {
+    const html = '<p>今日</p>';
+    const page = normalizeHtml(html);
+    assert.equal(getSourceOffset(page, -1), html.indexOf('今日'));
+    assert.equal(getSourceOffset(page, 100), html.length);
+  });
+});
@@ -0,0 +1,45 @@
+// 多语言消息目录测试
+// 检查英文和繁体中文目录中没有遗漏的简体中文文字
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { Messages, MESSAGE_CATALOG } from '../scripts/限号/utils/i18n'
+
+/**
+ * 繁体中文中不应出现的常用简体字
+ */
+const SIMPLIFIED_ONLY_CHARS = /[设车时数据获择选务动检测间应这无为单双号态开关钟过还发显语题试输删览级围续页启错误资讯]/;
+
+/**
+ * 收集消息目录中的所有文字：字符串、数组和对象中的字符串，以及格式化函数使用示例参数的输出
+ * 节日名称翻译表的键为简体中文名称，只检查值
+ */
+function collectTexts(messages: Messages): { key: string; text: string }[] {
+  const texts: { key: string; text: string }[] = [];
+  const collect = (key: string, value: unknown) => {
+    if (typeof value === 'string') {
+      texts.push({ key, text: value });
+    } else if (typeof value === 'function') {
+      const args = Array.from({ length: value.length }, () => 1);
+      texts.push({ key, text: String(value(...args)) });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => collect(`${key}[${index}]`, item));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([name, item]) => collect(`${key}.${name}`, item));
+    }
+  };
+  Object.entries(messages).forEach(([key, value]) => collect(key, value));
+  return texts;
+}
+
+describe('消息目录', () => {
+  it('英文目录中没有中文', () => {
+    const untranslated = collectTexts(MESSAGE_CATALOG.en).filter(({ text }) => /[一-鿿]/.test(text));
+    assert.deepEqual(untranslated, []);
+  });
+
+  it('繁体中文目录中没有简体字', () => {
+    const untranslated = collectTexts(MESSAGE_CATALOG['zh-Hant']).filter(({ text }) => SIMPLIFIED_ONLY_CHARS.test(text));
+    assert.deepEqual(untranslated, []);
+  });
+});
@@ -0,0 +1,147 @@
+// 百度搜索结果解析测试
+// 使用tests/fixtures/baidu下的样本页面离线运行parseLimitNumbers和parseWeeklyLimitNumbers
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { createDate } from '../scripts/限号/utils/calendar'
+import { isRedirectPage, parseLimitNumbers, parseWeeklyLimitNumbers } from '../scripts/限号/utils/parser'
+import { readFixture, RuleSummary, summarizeRule } from './helpers'
+
+const WORKDAY_WINDOW = [{ start: '07:00', end: '20:00' }];
+
+/**
+ * 按尾号限行的预期结果
+ */
+function digits(first: number, second: number, timeWindows: RuleSummary['timeWindows'] = []): RuleSummary {
+  return { mode: 'digits', digits: [first, second], timeWindows, source: 'baidu' };
+}
+
+/**
+ * 周末按城市周末规则不限行的预期结果
+ */
+const WEEKEND_NO_LIMIT: RuleSummary = { mode: 'none', digits: [], timeWindows: [], source: 'weekendRule' };
+
+/**
+ * 样本页面及预期的解析结果
+ */
+const CASES: {
+  fixture: string;
+  city: string;
+  date: Date;
+  today: RuleSummary;
+  weekly: Record<string, RuleSummary>;
+}[] = [
+  {
+    fixture: 'beijing-card.html',
+    city: 'beijing',
+    date: createDate(2025, 2, 18),    // 周二
+    today: digits(4, 9, WORKDAY_WINDOW),
+    weekly: {
+      '周一': digits(3, 8),
+      '周二': digits(4, 9),
+      '周三': digits(5, 0),
+      '周四': digits(1, 6),
+      '周五': digits(2, 7),
+      '周六': WEEKEND_NO_LIMIT,
+      '周日': WEEKEND_NO_LIMIT
+    }
+  },
+  {
+    fixture: 'beijing-weekly-text.html',
+    city: 'beijing',
+    date: createDate(2025, 5, 22),    // 周四
+    today: digits(5, 0, WORKDAY_WINDOW),
+    weekly: {
+      '周一': digits(2, 7),
+      '周二': digits(3, 8),
+      '周三': digits(4, 9),
+      '周四': digits(5, 0),
+      '周五': digits(1, 6),
+      '周六': WEEKEND_NO_LIMIT,
+      '周日': WEEKEND_NO_LIMIT
+    }
+  },
+  {
+    fixture: 'tianjin-em.html',
+    city: 'tianjin',
+    date: createDate(2025, 5, 21),    // 周三
+    today: digits(1, 6),
+    weekly: {
+      '周一': digits(4, 9),
+      '周二': digits(5, 0),
+      '周三': digits(1, 6),
+      '周四': digits(2, 7),
+      '周五': digits(3, 8),
+      '周六': WEEKEND_NO_LIMIT,
+      '周日': WEEKEND_NO_LIMIT
+    }
+  },
+  {
+    fixture: 'tianjin-spaced.html',
+    city: 'tianjin',
+    date: createDate(2025, 5, 21),    // 周三
+    today: digits(1, 6),
+    weekly: {
+      '周一': digits(4, 9),
+      '周二': digits(5, 0),
+      '周三': digits(1, 6),
+      '周四': digits(2, 7),
+      '周五': digits(3, 8),
+      '周六': WEEKEND_NO_LIMIT,
+      '周日': WEEKEND_NO_LIMIT
+    }
+  },
+  {
+    fixture: 'chengdu-no-limit.html',
+    city: 'chengdu',
+    date: createDate(2025, 10, 1),    // 周三
+    today: { mode: 'none', digits: [], timeWindows: [], source: 'baidu' },
+    weekly: {}
+  }
+];
+
+describe('parseLimitNumbers', () => {
+  for (const testCase of CASES) {
+    it(`提取${testCase.fixture}的当天限行信息`, () => {
+      const rule = parseLimitNumbers(readFixture(`baidu/${testCase.fixture}`), testCase.city, testCase.date);
+      assert.deepEqual(summarizeRule(rule), testCase.today);
+    });
+  }
+
+  it('星期和尾号之间的空格、&nbsp;和<em>不影响完整句子匹配', () => {
+    const rule = parseLimitNumbers(readFixture('baidu/tianjin-spaced.html'), 'tianjin', createDate(2025, 5, 21));
+    assert.deepEqual(rule.digits, [1, 6]);
+    assert.equal(rule.confidence, 'high');
+  });
+
+  it('周末按城市周末规则不限行', () => {
+    const rule = parseLimitNumbers(readFixture('baidu/beijing-card.html'), 'beijing', createDate(2025, 2, 22));
+    assert.deepEqual(summarizeRule(rule), WEEKEND_NO_LIMIT);
+  });
+
+  it('重定向页面返回invalidPage错误', () => {
+    const page = '<html><head><script>location.replace("https://www.baidu.com/s?wd=%E5%8C%97%E4%BA%AC%E9%99%90%E8%A1%8C")</script></head></html>';
+    assert.equal(isRedirectPage(page), true);
+    const rule = parseLimitNumbers(page, 'beijing', createDate(2025, 2, 18));
+    assert.equal(rule.mode, 'error');
+    assert.equal(rule.error?.code, 'invalidPage');
+  });
+});
+
+describe('parseWeeklyLimitNumbers', () => {
+  for (const testCase of CASES) {
+    it(`提取${testCase.fixture}的一周限行信息`, () => {
+      const weeklyRules = parseWeeklyLimitNumbers(readFixture(`baidu/${testCase.fixture}`), testCase.city);
+      const summary: Record<string, RuleSummary | undefined> = {};
+      for (const [day, rule] of Object.entries(weeklyRules)) {
+        summary[day] = summarizeRule(rule);
+      }
+      assert.deepEqual(summary, testCase.weekly);
+    });
+  }
+
+  it('"分别为"后的尾号在块的边界处结束，不拼接下一条结果中的尾号', () => {
+    const weeklyRules = parseWeeklyLimitNumbers(readFixture('baidu/beijing-truncated.html'), 'beijing');
+    assert.deepEqual(weeklyRules, {});
+  });
+});
@@ -0,0 +1,40 @@
+// 限行提醒测试
+// 重新安排提醒时只移除之前安排的提醒通知，保留城市变化等其他通知
+
+import assert from 'node:assert/strict'
+import { afterEach, describe, it, mock } from 'node:test'
+import { installRuntime } from '../tools/runtime'
+import { Notification, TimeIntervalNotificationTrigger } from '../tools/runtime/scripting'
+import { createDate } from '../scripts/限号/utils/calendar'
+import { updateReminders } from '../scripts/限号/utils/reminder'
+import { addVehicle } from '../scripts/限号/utils/vehicle'
+
+describe('updateReminders', () => {
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('重新安排时替换之前的提醒，保留其他待发送的通知', async () => {
+    // 2025-02-17（周一）上午9点，北京离线规则周一为3和8
+    mock.timers.enable({ apis: ['Date'], now: createDate(2025, 2, 17).getTime() + 9 * 3600 * 1000 });
+    const runtime = installRuntime();
+    addVehicle('通勤', '京A12348');
+
+    // 尚未发送的城市变化通知
+    await Notification.schedule({
+      identifier: 'cityChange',
+      title: '限号查询',
+      body: '已切换到北京',
+      trigger: new TimeIntervalNotificationTrigger({ timeInterval: 1, repeats: false })
+    });
+
+    const first = await updateReminders('beijing', { force: true });
+    assert.ok(first.length > 0);
+    assert.equal(runtime.pendingNotifications.length, first.length + 1);
+
+    const second = await updateReminders('beijing', { force: true });
+    assert.deepEqual(second.map(reminder => reminder.identifier), first.map(reminder => reminder.identifier));
+    assert.equal(runtime.pendingNotifications.length, second.length + 1);
+    assert.ok(runtime.pendingNotifications.some(record => record.identifier === 'cityChange'));
+  });
+});
@@ -0,0 +1,46 @@
+// 尾号轮换计算测试
+// 北京的轮换规则与交管部门公布的各轮换周期对照
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { createDate, formatDateKey } from '../scripts/限号/utils/calendar'
+import { getRotationDigits } from '../scripts/限号/utils/rotation'
+
+/**
+ * 北京公布的尾号轮换周期：周期开始日期（周一）和周一到周五的限行尾号
+ */
+const BEIJING_PUBLISHED_PERIODS: { start: [number, number, number]; digits: number[][] }[] = [
+  { start: [2024, 9, 30], digits: [[4, 9], [5, 0], [1, 6], [2, 7], [3, 8]] },
+  { start: [2024, 12, 30], digits: [[3, 8], [4, 9], [5, 0], [1, 6], [2, 7]] },
+  { start: [2025, 3, 31], digits: [[2, 7], [3, 8], [4, 9], [5, 0], [1, 6]] },
+  { start: [2025, 6, 30], digits: [[1, 6], [2, 7], [3, 8], [4, 9], [5, 0]] },
+  { start: [2025, 9, 29], digits: [[5, 0], [1, 6], [2, 7], [3, 8], [4, 9]] }
+];
+
+describe('北京尾号轮换', () => {
+  it('基准周期最后一周与下一周期第一周在13周的边界处轮换', () => {
+    // 2024-12-30起的基准周期持续到2025-03-30，2025-03-31起为下一周期
+    const lastWeek = [24, 25, 26, 27, 28].map(day => getRotationDigits('beijing', createDate(2025, 3, day))?.digits);
+    const nextWeek = [31, 1, 2, 3, 4].map((day, index) => getRotationDigits('beijing', createDate(2025, index === 0 ? 3 : 4, day))?.digits);
+
+    assert.deepEqual(lastWeek, [[3, 8], [4, 9], [5, 0], [1, 6], [2, 7]]);
+    assert.deepEqual(nextWeek, [[2, 7], [3, 8], [4, 9], [5, 0], [1, 6]]);
+  });
+
+  for (const period of BEIJING_PUBLISHED_PERIODS) {
+    const [year, month, day] = period.start;
+
+    it(`${formatDateKey(createDate(year, month, day))}起的轮换周期与公布的尾号一致`, () => {
+      for (let week = 0; week < 13; week++) {
+        period.digits.forEach((digits, weekday) => {
+          const date = createDate(year, month, day + week * 7 + weekday);
+          assert.deepEqual(getRotationDigits('beijing', date)?.digits, digits, `${formatDateKey(date)}的限行尾号`);
+        });
+      }
+    });
+  }
+
+  it('没有轮换规则的城市返回null', () => {
+    assert.equal(getRotationDigits('shanghai', createDate(2025, 3, 31)), null);
+  });
+});
@@ -0,0 +1,67 @@
+// 离线限行规则测试
+// 轮换周期的切换日期，以及调休上班的周末按轮换规则计算尾号
+
+import assert from 'node:assert/strict'
+import { beforeEach, describe, it } from 'node:test'
+import { installRuntime } from '../tools/runtime'
+import { createDate, formatDateKey } from '../scripts/限号/utils/calendar'
+import { applyHolidayCalendar, setHolidayOverride } from '../scripts/限号/utils/holiday'
+import { createNoRestrictionRule } from '../scripts/限号/utils/restriction'
+import { getNextRotationDate, getOfflineRestriction } from '../scripts/限号/utils/rules'
+
+describe('getNextRotationDate', () => {
+  it('返回下一个13周轮换周期开始的周一', () => {
+    assert.equal(formatDateKey(getNextRotationDate('beijing', createDate(2025, 2, 18)) as Date), '2025-03-31');
+    assert.equal(formatDateKey(getNextRotationDate('beijing', createDate(2025, 3, 31)) as Date), '2025-06-30');
+  });
+
+  it('不轮换的城市返回null', () => {
+    assert.equal(getNextRotationDate('chengdu', createDate(2025, 2, 18)), null);
+  });
+});
+
+describe('调休上班日', () => {
+  beforeEach(() => {
+    installRuntime();
+  });
+
+  it('北京调休上班的周日按轮换顺序顺延，与当周周二的尾号相同', () => {
+    // 2025-09-28（周日）为国庆节调休上班日，当周周一为1和6
+    const rule = getOfflineRestriction('beijing', createDate(2025, 9, 28));
+    assert.ok(rule);
+    assert.equal(rule.mode, 'digits');
+    assert.deepEqual(rule.digits, [2, 7]);
+    assert.deepEqual(rule.timeWindows, [{ start: '07:00', end: '20:00' }]);
+    assert.equal(rule.source, 'holidayCalendar');
+    assert.equal(rule.makeupWorkday, true);
+  });
+
+  it('北京调休上班的周六与当周周一的尾号相同', () => {
+    // 2025-10-11（周六）为国庆节调休上班日，当周周一为5和0
+    const rule = getOfflineRestriction('beijing', createDate(2025, 10, 11));
+    assert.ok(rule);
+    assert.deepEqual(rule.digits, [5, 0]);
+    assert.equal(rule.makeupWorkday, true);
+  });
+
+  it('数据源按周末不限行时按轮换规则计算尾号', () => {
+    const weekendRule = createNoRestrictionRule({ source: 'weekendRule', confidence: 'high' });
+    const rule = applyHolidayCalendar('beijing', createDate(2026, 2, 14), weekendRule);
+    assert.equal(rule.mode, 'digits');
+    assert.equal(rule.makeupWorkday, true);
+    assert.deepEqual(rule.digits, getOfflineRestriction('beijing', createDate(2026, 2, 9))?.digits);
+  });
+
+  it('调休上班日不限行的城市保持原规则', () => {
+    const weekendRule = createNoRestrictionRule({ source: 'weekendRule', confidence: 'high' });
+    assert.equal(applyHolidayCalendar('chengdu', createDate(2025, 9, 28), weekendRule), weekendRule);
+  });
+
+  it('自定义的调休上班日同样按轮换规则计算', () => {
+    setHolidayOverride('2027-01-09', { type: 'workday', name: '元旦' });
+    const rule = getOfflineRestriction('beijing', createDate(2027, 1, 9));
+    assert.ok(rule);
+    assert.equal(rule.mode, 'digits');
+    assert.deepEqual(rule.digits, getOfflineRestriction('beijing', createDate(2027, 1, 4))?.digits);
+  });
+});
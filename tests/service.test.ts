@@ -0,0 +1,202 @@
+// 限号信息服务端到端测试
+// 使用Node环境运行时替代Storage、Location、Device和fetch，以样本页面代替网络请求运行getLimitNumbers和getWeeklyLimitNumbers
+
+import assert from 'node:assert/strict'
+import { afterEach, describe, it, mock } from 'node:test'
+import { createHtmlFetch, installRuntime, LocationStep, RuntimeOptions } from '../tools/runtime'
+import { createDate } from '../scripts/限号/utils/calendar'
+import { getCachedLimitData } from '../scripts/限号/utils/cache'
+import { getLimitNumbers, getWeeklyLimitNumbers } from '../scripts/限号/utils/service'
+import { addVehicle } from '../scripts/限号/utils/vehicle'
+import { readFixture, summarizeRule } from './helpers'
+
+const WORKDAY_WINDOW = [{ start: '07:00', end: '20:00' }];
+
+/**
+ * 与service.ts中STALE_REFRESH_BUDGET一致的等待时间（毫秒）
+ */
+const STALE_REFRESH_BUDGET = 5000;
+
+/**
+ * 定位到成都的定位结果
+ */
+const CHENGDU_STEPS: LocationStep[] = [
+  { location: { latitude: 30.66, longitude: 104.06 }, placemarks: [{ locality: '成都', administrativeArea: '四川省' }] }
+];
+
+/**
+ * 指定日期（北京时间）上午9点的时间戳
+ */
+function morningOf(date: [number, number, number]): number {
+  return createDate(...date).getTime() + 9 * 3600 * 1000;
+}
+
+/**
+ * 将当前时间固定为指定日期的上午9点，并使用样本页面安装运行时
+ * @param timers 需要模拟的计时器，默认只模拟Date
+ * @returns 已安装的运行时和已请求的URL
+ */
+function setup(date: [number, number, number], fixture: string, options: RuntimeOptions = {}, timers: ('Date' | 'setTimeout')[] = ['Date']) {
+  mock.timers.enable({ apis: timers, now: morningOf(date) });
+
+  const fetchFromFixture = createHtmlFetch(readFixture(fixture));
+  const requests: string[] = [];
+  const runtime = installRuntime({
+    ...options,
+    fetch: (url, init) => {
+      requests.push(url);
+      return fetchFromFixture(url, init);
+    }
+  });
+  return { runtime, requests };
+}
+
+describe('getLimitNumbers', () => {
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('从百度页面获取当天限行尾号并写入缓存', async () => {
+    const { requests } = setup([2025, 2, 18], 'baidu/beijing-card.html');
+
+    const result = await getLimitNumbers();
+
+    assert.equal(result.city, 'beijing');
+    assert.deepEqual(summarizeRule(result.limitInfo), { mode: 'digits', digits: [4, 9], timeWindows: WORKDAY_WINDOW, source: 'baidu' });
+    assert.equal(result.freshness.stale, false);
+    assert.equal(result.refresh?.providerId, 'baidu');
+    assert.equal(requests.length, 1);
+    assert.ok(getCachedLimitData('beijing'));
+  });
+
+  it('今天已获取时使用缓存，不再发送请求', async () => {
+    const { requests } = setup([2025, 2, 18], 'baidu/beijing-card.html');
+
+    await getLimitNumbers();
+    const cached = await getLimitNumbers();
+
+    assert.equal(requests.length, 1);
+    assert.deepEqual(cached.limitInfo.digits, [4, 9]);
+    assert.equal(cached.refresh, undefined);
+  });
+
+  it('按定位识别城市，并按主车辆判断是否限行', async () => {
+    setup([2025, 5, 21], 'baidu/chengdu-no-limit.html', { locationSteps: CHENGDU_STEPS });
+    addVehicle('通勤', '川A12343');
+
+    const result = await getLimitNumbers();
+
+    assert.equal(result.city, 'chengdu');
+    assert.equal(result.limitInfo.mode, 'none');
+    assert.equal(result.vehicle?.tailDigit, 3);
+    assert.equal(result.vehicle?.verdict, 'notRestricted');
+  });
+
+  it('定位失败时使用默认城市，并按设备语言发送提示通知', async () => {
+    const { runtime } = setup([2025, 2, 18], 'baidu/beijing-card.html', { device: { preferredLanguages: ['en-US'] } });
+
+    const result = await getLimitNumbers();
+
+    assert.equal(result.city, 'beijing');
+    assert.equal(runtime.notifications.length, 1);
+    assert.equal(runtime.notifications[0].title, 'Plate Restriction');
+    assert.match(String(runtime.notifications[0].body), /Could not determine your city/);
+  });
+
+  it('网络请求失败时使用离线规则', async () => {
+    const { runtime } = setup([2025, 2, 18], 'baidu/beijing-card.html');
+    runtime.setFetch(async () => {
+      throw new Error('网络不可用');
+    });
+
+    const result = await getLimitNumbers();
+
+    assert.deepEqual(summarizeRule(result.limitInfo), { mode: 'digits', digits: [4, 9], timeWindows: WORKDAY_WINDOW, source: 'offlineRule' });
+    assert.equal(result.refresh?.providerId, 'offline');
+  });
+
+  it('数据源超时时按数据源链使用下一个数据源', async () => {
+    const { runtime } = setup([2025, 2, 18], 'baidu/beijing-card.html', {}, ['Date', 'setTimeout']);
+    runtime.setFetch(() => new Promise<Response>(() => {}));
+
+    // 强制刷新时等待数据源链完成，不先使用离线规则
+    const pending = getLimitNumbers({ forceRefresh: true });
+    // 等待定位完成、开始请求百度页面后再推进时间
+    await new Promise(resolve => setImmediate(resolve));
+    mock.timers.tick(15000);
+    const result = await pending;
+
+    assert.equal(result.limitInfo.source, 'offlineRule');
+    assert.deepEqual(result.limitInfo.digits, [4, 9]);
+    assert.equal(result.refresh?.providerId, 'offline');
+  });
+
+  it('今天没有缓存且刷新过慢时，在等待时间内先使用离线规则', async () => {
+    const { runtime } = setup([2025, 2, 14], 'baidu/beijing-card.html', {}, ['Date', 'setTimeout']);
+    await getLimitNumbers({ city: 'beijing' });
+
+    // 下一周的周一，缓存中只有上一周的数据，数据源不再响应
+    mock.timers.setTime(morningOf([2025, 2, 17]));
+    runtime.setFetch(() => new Promise<Response>(() => undefined));
+    const pending = getLimitNumbers({ city: 'beijing' });
+    mock.timers.tick(STALE_REFRESH_BUDGET);
+    const result = await pending;
+
+    assert.equal(result.limitInfo.source, 'offlineRule');
+    assert.deepEqual(result.limitInfo.digits, [3, 8]);
+    assert.equal(result.freshness.stale, true);
+    assert.equal(result.refresh, undefined);
+  });
+
+  it('没有离线规则的城市先使用上周同一天的缓存', async () => {
+    const { runtime } = setup([2025, 5, 21], 'baidu/tianjin-em.html', {}, ['Date', 'setTimeout']);
+    await getLimitNumbers({ city: 'tianjin' });
+
+    mock.timers.setTime(morningOf([2025, 5, 28]));
+    runtime.setFetch(() => new Promise<Response>(() => undefined));
+    const pending = getLimitNumbers({ city: 'tianjin' });
+    mock.timers.tick(STALE_REFRESH_BUDGET);
+    const result = await pending;
+
+    assert.equal(result.limitInfo.source, 'baidu');
+    assert.deepEqual(result.limitInfo.digits, [1, 6]);
+    assert.equal(result.freshness.stale, true);
+  });
+});
+
+describe('getWeeklyLimitNumbers', () => {
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('使用同一次请求的页面得到一周限行尾号和车库判定', async () => {
+    const { requests } = setup([2025, 5, 22], 'baidu/beijing-weekly-text.html');
+    addVehicle('通勤', '京A12347');
+
+    const result = await getWeeklyLimitNumbers();
+
+    assert.equal(requests.length, 1);
+    assert.deepEqual(
+      result.weeklyLimitInfo.map(item => item.limitInfo.digits),
+      [[2, 7], [3, 8], [4, 9], [5, 0], [1, 6], [], []]
+    );
+    assert.deepEqual(result.weeklyLimitInfo.map(item => item.isToday), [false, false, false, true, false, false, false]);
+    assert.equal(result.garage.length, 1);
+    assert.deepEqual(
+      result.garage[0].week.map(item => item.verdict),
+      ['restricted', 'notRestricted', 'notRestricted', 'notRestricted', 'notRestricted', 'notRestricted', 'notRestricted']
+    );
+    assert.equal(result.garage[0].today.verdict, 'notRestricted');
+  });
+
+  it('节假日按节假日日历不限行', async () => {
+    // 2025-05-01（周四）至05-05为劳动节假期
+    setup([2025, 4, 30], 'baidu/beijing-weekly-text.html');
+
+    const result = await getWeeklyLimitNumbers();
+
+    assert.deepEqual(result.weeklyLimitInfo.map(item => item.holiday?.type ?? null), [null, null, null, 'holiday', 'holiday', 'holiday', 'holiday']);
+    assert.deepEqual(result.weeklyLimitInfo.map(item => item.limitInfo.digits), [[2, 7], [3, 8], [4, 9], [], [], [], []]);
+    assert.equal(result.weeklyLimitInfo[3].limitInfo.source, 'holidayCalendar');
+  });
+});
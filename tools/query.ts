@@ -0,0 +1,199 @@
+// 限号查询命令行工具
+// 复用小组件的数据源链和限号信息服务，在终端中查询指定城市的限行信息或调试页面解析
+//
+// 用法: npm run query -- [城市] [--week] [--json] [--html <文件>] [--storage <文件>] [--verbose]
+
+import * as fs from 'fs'
+import { createFileStorage, createHtmlFetch, createMemoryStorage, installRuntime } from './runtime'
+
+/**
+ * 命令行参数
+ */
+interface QueryOptions {
+  city?: string;
+  week: boolean;          // 是否输出一周限行信息
+  json: boolean;          // 是否输出JSON
+  htmlFile?: string;      // 使用保存的页面代替网络请求
+  storageFile?: string;   // 使用JSON文件保存缓存，不指定时使用内存存储
+  verbose: boolean;       // 是否输出服务层的日志
+}
+
+const USAGE = `用法: npm run query -- [城市] [选项]
+
+选项:
+  --week             同时输出一周限行信息
+  --json             以JSON格式输出
+  --html <文件>      解析保存的百度搜索结果页面，不发送网络请求
+  --storage <文件>   使用JSON文件保存缓存（默认使用内存存储，每次都重新获取）
+  --verbose          输出数据获取和解析过程的日志
+  --help             显示帮助信息
+
+城市可以是名称、全称或拼音（如 北京、北京市、beijing），不指定时使用默认城市。`;
+
+/**
+ * 解析命令行参数
+ * @param args 命令行参数（不含node和脚本路径）
+ * @returns 解析后的参数，参数无效时抛出异常
+ */
+function parseArgs(args: string[]): QueryOptions {
+  const options: QueryOptions = { week: false, json: false, verbose: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--week') {
+      options.week = true;
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--verbose') {
+      options.verbose = true;
+    } else if (arg === '--html' || arg === '--storage') {
+      const value = args[++i];
+      if (!value) {
+        throw new Error(`${arg} 需要指定文件路径`);
+      }
+      if (arg === '--html') {
+        options.htmlFile = value;
+      } else {
+        options.storageFile = value;
+      }
+    } else if (arg.startsWith('--')) {
+      throw new Error(`未知选项: ${arg}`);
+    } else if (!options.city) {
+      options.city = arg;
+    } else {
+      throw new Error(`只能指定一个城市: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * 将表格按列对齐输出（中文字符按两个字符宽度计算）
+ * @param rows 表格行，第一行为表头
+ */
+function formatTable(rows: string[][]): string {
+  const displayWidth = (text: string) =>
+    Array.from(text).reduce((width, char) => width + (char.charCodeAt(0) > 0xff ? 2 : 1), 0);
+  const columnWidths = rows[0].map((_, column) =>
+    Math.max(...rows.map(row => displayWidth(row[column])))
+  );
+
+  return rows
+    .map(row => row
+      .map((cell, column) => cell + ' '.repeat(columnWidths[column] - displayWidth(cell)))
+      .join('  ')
+      .trimEnd()
+    )
+    .join('\n');
+}
+
+/**
+ * 格式化节假日信息，如"国庆节放假"、"国庆节调休上班"
+ */
+function formatHoliday(holiday: { type: string; name: string } | null): string {
+  if (!holiday) {
+    return '-';
+  }
+  return `${holiday.name}${holiday.type === 'holiday' ? '放假' : '调休上班'}`;
+}
+
+async function main(): Promise<void> {
+  let options: QueryOptions;
+  try {
+    if (process.argv.includes('--help')) {
+      console.log(USAGE);
+      return;
+    }
+    options = parseArgs(process.argv.slice(2));
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const runtime = installRuntime({
+    storage: options.storageFile ? createFileStorage(options.storageFile) : createMemoryStorage(),
+    fetch: options.htmlFile ? createHtmlFetch(fs.readFileSync(options.htmlFile, 'utf8')) : undefined
+  });
+
+  // 服务层的日志较多，默认只输出查询结果（获取失败的原因会包含在结果中）
+  const { log, error } = console;
+  if (!options.verbose) {
+    console.log = () => undefined;
+    console.error = () => undefined;
+  }
+
+  // 必须在安装运行时之后再加载脚本模块，以便'scripting'模块和全局API指向Node环境下的实现
+  const { getLimitNumbers, getWeeklyLimitNumbers } = await import('../scripts/限号/utils/service');
+  const { DEFAULT_PROVIDER_TIMEOUT, getProviders, saveProviderChain } = await import('../scripts/限号/utils/provider');
+  const { formatRestrictionRule, formatTimeWindow } = await import('../scripts/限号/utils/restriction');
+  const { formatShortLimit } = await import('../scripts/限号/utils/i18n');
+  const { getCityName } = await import('../scripts/限号/utils/cityRegistry');
+
+  if (options.htmlFile) {
+    // 解析保存的页面时只使用百度搜索数据源，避免解析失败时回退到离线规则而掩盖问题
+    saveProviderChain(getProviders().map(provider => ({
+      id: provider.id,
+      enabled: provider.id === 'baidu',
+      timeoutMs: DEFAULT_PROVIDER_TIMEOUT
+    })));
+    // 保存的页面没有今天的缓存之分，每次都重新解析
+    runtime.storage.keys()
+      .filter(key => key.startsWith('limitNumbers_'))
+      .forEach(key => runtime.storage.remove(key));
+  }
+
+  const limitData = await getLimitNumbers({ city: options.city });
+  const weeklyData = options.week ? await getWeeklyLimitNumbers({ city: limitData.city }) : null;
+  console.log = log;
+  console.error = error;
+
+  if (options.json) {
+    console.log(JSON.stringify(weeklyData ? { today: limitData, week: weeklyData } : limitData, null, 2));
+    return;
+  }
+
+  const todayRows = [
+    ['城市', '限行尾号', '限行时间', '来源', '节假日'],
+    [
+      `${getCityName(limitData.city)} (${limitData.city})`,
+      formatShortLimit(limitData.limitInfo),
+      limitData.limitInfo.timeWindows.map(formatTimeWindow).join(', ') || '-',
+      limitData.limitInfo.source,
+      formatHoliday(limitData.holiday)
+    ]
+  ];
+  console.log(formatTable(todayRows));
+  if (limitData.limitInfo.error) {
+    console.log(`\n${formatRestrictionRule(limitData.limitInfo)}`);
+  }
+  if (limitData.freshness.stale) {
+    const { updatedAt } = limitData.freshness;
+    console.log(`\n今天尚未刷新成功，${updatedAt !== null ? `显示的是${new Date(updatedAt).toLocaleString()}获取的数据` : '没有可用的旧数据'}`);
+  }
+  if (limitData.refresh) {
+    const { providerId, requestCount, latencyMs } = limitData.refresh;
+    console.log(`\n数据源: ${providerId || '无'}，网络请求${requestCount}次，耗时${latencyMs}ms`);
+  }
+
+  if (weeklyData) {
+    const weekRows = [['日期', '限行尾号', '限行时间', '来源', '节假日']];
+    for (const dayInfo of weeklyData.weeklyLimitInfo) {
+      weekRows.push([
+        `${dayInfo.day}${dayInfo.isToday ? '(今天)' : ''}`,
+        formatShortLimit(dayInfo.limitInfo),
+        dayInfo.limitInfo.timeWindows.map(formatTimeWindow).join(', ') || '-',
+        dayInfo.limitInfo.source,
+        formatHoliday(dayInfo.holiday)
+      ]);
+    }
+    console.log(`\n${formatTable(weekRows)}`);
+  }
+}
+
+main().catch(e => {
+  console.error('查询失败:', e);
+  process.exitCode = 1;
+});
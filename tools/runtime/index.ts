@@ -0,0 +1,281 @@
+// Node环境运行时模块
+// 为Scripting App的全局API（Storage、Location、Notification、Device、fetch）提供Node环境下的替代实现，
+// 使限号脚本的服务层可以在电脑上运行和调试
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { notificationRecords, NotificationRecord, pendingNotifications, TimeIntervalNotificationTrigger } from './scripting'
+
+const Module = require('module');
+
+/**
+ * Node自带的fetch，在安装运行时替换全局fetch之前保存
+ */
+const nativeFetch = globalThis.fetch;
+
+/**
+ * 将脚本中的 import ... from 'scripting' 指向Node环境下的替身模块
+ * 必须在加载任何依赖scripting的脚本模块之前完成，因此在本模块加载时立即注册
+ */
+const scriptingModulePath = require.resolve('./scripting');
+const originalResolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request: string, ...args: unknown[]) {
+  if (request === 'scripting') {
+    return scriptingModulePath;
+  }
+  return originalResolveFilename.call(this, request, ...args);
+};
+
+/**
+ * Storage替身，与Scripting App的Storage API保持一致的子集
+ */
+export interface RuntimeStorage {
+  get<T>(key: string): T | null;
+  set<T>(key: string, value: T): boolean;
+  remove(key: string): void;
+  contains(key: string): boolean;
+  clear(): void;
+  keys(): string[];
+}
+
+/**
+ * 位置信息
+ */
+export interface RuntimeLocationInfo {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * 反向地理编码结果（Scripting App中placemark的常用字段子集）
+ */
+export interface RuntimePlacemark {
+  name?: string;
+  locality?: string;
+  subLocality?: string;
+  administrativeArea?: string;
+  country?: string;
+  isoCountryCode?: string;
+}
+
+/**
+ * 一次定位的脚本化结果
+ * location为null表示定位失败；placemarks为反向地理编码返回的结果
+ */
+export interface LocationStep {
+  location: RuntimeLocationInfo | null;
+  placemarks?: RuntimePlacemark[];
+}
+
+/**
+ * 脚本化的Location替身
+ */
+export interface RuntimeLocation {
+  requestCurrent(): Promise<RuntimeLocationInfo | null>;
+  reverseGeocode(options: { latitude: number; longitude: number; locale?: string }): Promise<RuntimePlacemark[] | null>;
+  setSteps(steps: LocationStep[]): void;
+  readonly requestCount: number;
+}
+
+/**
+ * Device替身（Scripting App中Device的常用字段子集）
+ */
+export interface RuntimeDevice {
+  preferredLanguages: string[];   // 设备首选语言，如"zh-Hans-CN"、"en-US"
+  systemName: string;
+  systemVersion: string;
+  model: string;
+}
+
+/**
+ * 默认的设备信息：首选语言为简体中文
+ */
+const DEFAULT_DEVICE: RuntimeDevice = {
+  preferredLanguages: ['zh-Hans-CN'],
+  systemName: 'iOS',
+  systemVersion: '18.0',
+  model: 'iPhone'
+};
+
+/**
+ * fetch函数类型
+ */
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * 运行时配置
+ */
+export interface RuntimeOptions {
+  storage?: RuntimeStorage;       // 默认使用内存存储
+  locationSteps?: LocationStep[]; // 默认定位失败
+  device?: Partial<RuntimeDevice>;  // 未指定的字段使用默认设备信息
+  fetch?: FetchFunction;          // 默认使用Node自带的fetch
+}
+
+/**
+ * 已安装的运行时，用于在运行过程中检查和调整替身的状态
+ */
+export interface Runtime {
+  storage: RuntimeStorage;
+  location: RuntimeLocation;
+  device: RuntimeDevice;
+  notifications: NotificationRecord[];
+  pendingNotifications: NotificationRecord[];   // 尚未移除的定时通知
+  setFetch(fetchFunction: FetchFunction): void;
+}
+
+/**
+ * 创建内存存储
+ * @param initialData 初始数据
+ */
+export function createMemoryStorage(initialData: Record<string, unknown> = {}): RuntimeStorage {
+  const data = new Map<string, unknown>(Object.entries(initialData));
+
+  return {
+    get<T>(key: string): T | null {
+      // 返回副本，避免调用方修改存储中的对象
+      return data.has(key) ? JSON.parse(JSON.stringify(data.get(key))) as T : null;
+    },
+    set<T>(key: string, value: T): boolean {
+      data.set(key, JSON.parse(JSON.stringify(value)));
+      return true;
+    },
+    remove(key: string): void {
+      data.delete(key);
+    },
+    contains(key: string): boolean {
+      return data.has(key);
+    },
+    clear(): void {
+      data.clear();
+    },
+    keys(): string[] {
+      return Array.from(data.keys());
+    }
+  };
+}
+
+/**
+ * 创建基于JSON文件的存储，每次写入后立即保存到文件
+ * @param filePath JSON文件路径，不存在时自动创建
+ */
+export function createFileStorage(filePath: string): RuntimeStorage {
+  let initialData: Record<string, unknown> = {};
+  if (fs.existsSync(filePath)) {
+    try {
+      initialData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e) {
+      console.error(`读取存储文件${filePath}失败，使用空存储:`, e);
+    }
+  }
+
+  const memoryStorage = createMemoryStorage(initialData);
+  const save = () => {
+    const snapshot: Record<string, unknown> = {};
+    for (const key of memoryStorage.keys()) {
+      snapshot[key] = memoryStorage.get(key);
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 2));
+  };
+
+  return {
+    ...memoryStorage,
+    set<T>(key: string, value: T): boolean {
+      memoryStorage.set(key, value);
+      save();
+      return true;
+    },
+    remove(key: string): void {
+      memoryStorage.remove(key);
+      save();
+    },
+    clear(): void {
+      memoryStorage.clear();
+      save();
+    }
+  };
+}
+
+/**
+ * 创建脚本化的Location
+ * 每次requestCurrent依次使用steps中的下一步，用完后一直使用最后一步；
+ * reverseGeocode返回最近一次定位对应的placemarks
+ * @param steps 定位结果序列，为空时定位总是失败
+ */
+export function createScriptedLocation(steps: LocationStep[] = []): RuntimeLocation {
+  let currentSteps = steps;
+  let requestCount = 0;
+  let lastStep: LocationStep | null = null;
+
+  return {
+    async requestCurrent(): Promise<RuntimeLocationInfo | null> {
+      const step = currentSteps.length > 0
+        ? currentSteps[Math.min(requestCount, currentSteps.length - 1)]
+        : null;
+      requestCount++;
+      lastStep = step;
+      return step ? step.location : null;
+    },
+    async reverseGeocode(): Promise<RuntimePlacemark[] | null> {
+      return lastStep && lastStep.placemarks ? lastStep.placemarks : [];
+    },
+    setSteps(newSteps: LocationStep[]): void {
+      currentSteps = newSteps;
+      requestCount = 0;
+      lastStep = null;
+    },
+    get requestCount() {
+      return requestCount;
+    }
+  };
+}
+
+/**
+ * 创建返回固定HTML的fetch，用于使用保存的页面代替网络请求
+ * @param html HTML内容，或根据URL返回HTML内容的函数
+ */
+export function createHtmlFetch(html: string | ((url: string) => string)): FetchFunction {
+  return async (url: string) => {
+    const body = typeof html === 'function' ? html(url) : html;
+    return new Response(body, {
+      status: 200,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    });
+  };
+}
+
+/**
+ * 安装Node环境运行时：将Storage、Location、Device、TimeIntervalNotificationTrigger、fetch设置为全局变量，通知记录在notifications中
+ * @param options 运行时配置
+ * @returns 已安装的运行时
+ */
+export function installRuntime(options: RuntimeOptions = {}): Runtime {
+  const storage = options.storage || createMemoryStorage();
+  const location = createScriptedLocation(options.locationSteps);
+  const device: RuntimeDevice = { ...DEFAULT_DEVICE, ...options.device };
+  let currentFetch: FetchFunction = options.fetch || ((url, init) => nativeFetch(url, init));
+
+  Object.assign(globalThis, {
+    Storage: storage,
+    Location: location,
+    Device: device,
+    TimeIntervalNotificationTrigger,
+    // 通过包装函数调用，以便setFetch在安装后仍然生效
+    fetch: (url: string, init?: RequestInit) => currentFetch(url, init)
+  });
+
+  notificationRecords.length = 0;
+  pendingNotifications.length = 0;
+
+  return {
+    storage,
+    location,
+    device,
+    notifications: notificationRecords,
+    pendingNotifications,
+    setFetch(fetchFunction: FetchFunction): void {
+      currentFetch = fetchFunction;
+    }
+  };
+}
@@ -0,0 +1,83 @@
+// Node环境下的scripting模块替身
+// 只实现限号脚本中服务层用到的API子集
+
+/**
+ * 通知选项（与Scripting App的Notification.schedule参数保持一致的子集）
+ */
+export interface NotificationOptions {
+  identifier?: string;    // 通知标识，用于移除指定的定时通知
+  title: string;
+  subtitle?: string;
+  body?: string;
+  interruptionLevel?: string;
+  trigger?: TimeIntervalNotificationTrigger;
+  [key: string]: unknown;
+}
+
+/**
+ * 已发送的通知记录
+ */
+export interface NotificationRecord extends NotificationOptions {
+  scheduledAt: number;    // 调用schedule的时间戳
+}
+
+/**
+ * 按调用顺序记录的通知
+ */
+export const notificationRecords: NotificationRecord[] = [];
+
+/**
+ * 尚未移除的定时通知（带trigger的通知）
+ */
+export const pendingNotifications: NotificationRecord[] = [];
+
+/**
+ * 按时间间隔触发的通知条件（与Scripting App的全局类TimeIntervalNotificationTrigger一致）
+ */
+export class TimeIntervalNotificationTrigger {
+  timeInterval: number;   // 距现在的秒数
+  repeats: boolean;
+
+  constructor(options: { timeInterval: number; repeats: boolean }) {
+    this.timeInterval = options.timeInterval;
+    this.repeats = options.repeats;
+  }
+}
+
+/**
+ * 移除指定标识的定时通知
+ */
+function removePendingsByIdentifier(identifiers: string[]): void {
+  for (let index = pendingNotifications.length - 1; index >= 0; index--) {
+    const identifier = pendingNotifications[index].identifier;
+    if (identifier && identifiers.includes(identifier)) {
+      pendingNotifications.splice(index, 1);
+    }
+  }
+}
+
+/**
+ * 记录型通知：不弹出通知，只记录调用参数
+ */
+export const Notification = {
+  async schedule(options: NotificationOptions): Promise<boolean> {
+    const record = { ...options, scheduledAt: Date.now() };
+    notificationRecords.push(record);
+    if (options.trigger) {
+      // 与系统一致，相同标识的定时通知替换之前的通知
+      if (options.identifier) {
+        removePendingsByIdentifier([options.identifier]);
+      }
+      pendingNotifications.push(record);
+    }
+    return true;
+  },
+
+  async getAllPendings(): Promise<NotificationRecord[]> {
+    return [...pendingNotifications];
+  },
+
+  async removePendings(identifiers: string[]): Promise<void> {
+    removePendingsByIdentifier(identifiers);
+  }
+};
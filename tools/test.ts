@@ -0,0 +1,20 @@
+// 测试入口
+// 使用Node自带的node:test依次运行tests目录下的*.test.ts，不依赖额外的测试框架
+//
+// 用法: npm test [-- --verbose]
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+const TESTS_DIR = path.resolve(__dirname, '../tests');
+
+// 脚本模块的日志较多，默认不输出（测试结果由node:test直接写入标准输出）
+if (!process.argv.includes('--verbose')) {
+  console.log = () => undefined;
+  console.warn = () => undefined;
+  console.error = () => undefined;
+}
+
+for (const file of fs.readdirSync(TESTS_DIR).filter(name => name.endsWith('.test.ts')).sort()) {
+  require(path.join(TESTS_DIR, file));
+}